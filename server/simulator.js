@@ -0,0 +1,92 @@
+/**
+ * Node host for the browser simulator
+ *
+ * Bundles src/workers/dataWorker.ts with Vite (once, at startup) and runs
+ * it inside a vm context with a fake `self`, so the mock servers replay
+ * exactly the same generator the app uses in its Web Worker. Each call
+ * creates an isolated simulator instance.
+ */
+
+import { fileURLToPath } from 'node:url';
+import vm from 'node:vm';
+import { build } from 'vite';
+
+const SRC_PATH = fileURLToPath(new URL('../src', import.meta.url));
+const WORKER_PATH = fileURLToPath(new URL('../src/workers/dataWorker.ts', import.meta.url));
+
+/**
+ * Compile the worker module and its imports into one classic script
+ */
+async function bundleWorker() {
+  const result = await build({
+    configFile: false,
+    logLevel: 'warn',
+    publicDir: false,
+    resolve: { alias: { '@': SRC_PATH } },
+    build: {
+      write: false,
+      minify: false,
+      lib: { entry: WORKER_PATH, formats: ['iife'], name: 'dataWorker' }
+    }
+  });
+  const [output] = Array.isArray(result) ? result : [result];
+  return output.output[0].code;
+}
+
+const workerScript = new vm.Script(await bundleWorker(), { filename: WORKER_PATH });
+
+/**
+ * Create a simulator instance
+ * @param {(message: object) => void} onMessage receives every WorkerMessage
+ * @returns {{ send: (command: object) => void, dispose: () => void }}
+ */
+export function createSimulator(onMessage) {
+  const timers = new Set();
+  const intervals = new Set();
+
+  const self = {
+    onmessage: null,
+    postMessage: message => onMessage(message)
+  };
+
+  const context = vm.createContext({
+    self,
+    console,
+    performance,
+    setTimeout: (fn, ms, ...args) => {
+      const handle = setTimeout(() => {
+        timers.delete(handle);
+        fn(...args);
+      }, ms);
+      timers.add(handle);
+      return handle;
+    },
+    clearTimeout: handle => {
+      timers.delete(handle);
+      clearTimeout(handle);
+    },
+    setInterval: (fn, ms, ...args) => {
+      const handle = setInterval(fn, ms, ...args);
+      intervals.add(handle);
+      return handle;
+    },
+    clearInterval: handle => {
+      intervals.delete(handle);
+      clearInterval(handle);
+    }
+  });
+
+  workerScript.runInContext(context);
+
+  return {
+    send(command) {
+      self.onmessage?.({ data: command });
+    },
+    dispose() {
+      timers.forEach(handle => clearTimeout(handle));
+      intervals.forEach(handle => clearInterval(handle));
+      timers.clear();
+      intervals.clear();
+    }
+  };
+}
@@ -0,0 +1,179 @@
+/**
+ * Mock Server-Sent Events feed
+ *
+ * Serves the simulator as an SSE stream so SseSource can be exercised
+ * locally without an outside service.
+ *
+ *   GET  /events?session=<id>    event stream (honors Last-Event-ID)
+ *   POST /command?session=<id>   WorkerCommand as JSON
+ *
+ * Sessions outlive their stream for a grace period and keep a backlog of
+ * recent frames, so a client that drops and reconnects with Last-Event-ID
+ * (or ?lastEventId=) gets the frames it missed.
+ *
+ * Usage: npm run mock:sse   (PORT defaults to 8788)
+ */
+
+import http from 'node:http';
+import { createSimulator } from './simulator.js';
+
+const port = Number(process.env.PORT ?? 8788);
+const BACKLOG_SIZE = 1000;
+const SESSION_GRACE_MS = 30000;
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Last-Event-ID'
+};
+
+/** @type {Map<string, Session>} */
+const sessions = new Map();
+
+class Session {
+  constructor(id) {
+    this.id = id;
+    this.nextEventId = 1;
+    this.backlog = [];
+    this.response = null;
+    this.expiryTimer = null;
+    this.protocolVersion = undefined;
+    this.simulator = createSimulator(message => this.publish(message));
+  }
+
+  /**
+   * Convert a worker message into an SSE frame and send/buffer it
+   */
+  publish(message) {
+    let payload;
+    switch (message.type) {
+      case 'updates':
+      case 'symbols':
+      case 'snapshot':
+        payload = message.data;
+        break;
+      case 'status':
+        payload = { running: message.running };
+        break;
+      case 'scenario':
+        payload = message.progress;
+        break;
+      case 'creditsUpdated':
+        payload = { epoch: message.epoch };
+        break;
+      case 'ready':
+        // Announced in the per-connection 'ready' frame
+        this.protocolVersion = message.protocolVersion;
+        return;
+      default:
+        // 'configUpdated' isn't part of the feed
+        return;
+    }
+
+    const frame = `id: ${this.nextEventId}\nevent: ${message.type}\ndata: ${JSON.stringify(payload)}\n\n`;
+    this.backlog.push({ id: this.nextEventId, frame });
+    if (this.backlog.length > BACKLOG_SIZE) {
+      this.backlog.shift();
+    }
+    this.nextEventId++;
+
+    this.response?.write(frame);
+  }
+
+  attach(response, lastEventId) {
+    clearTimeout(this.expiryTimer);
+    this.response?.end();
+    this.response = response;
+
+    response.writeHead(200, {
+      ...CORS_HEADERS,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive'
+    });
+    response.write('retry: 1000\n\n');
+
+    const resumed = lastEventId !== null;
+    const ready = { resumed, protocolVersion: this.protocolVersion };
+    response.write(`event: ready\ndata: ${JSON.stringify(ready)}\n\n`);
+
+    if (resumed) {
+      this.backlog
+        .filter(entry => entry.id > lastEventId)
+        .forEach(entry => response.write(entry.frame));
+    }
+  }
+
+  detach(response) {
+    if (this.response !== response) return;
+    this.response = null;
+    this.expiryTimer = setTimeout(() => {
+      this.simulator.dispose();
+      sessions.delete(this.id);
+    }, SESSION_GRACE_MS);
+  }
+}
+
+function readBody(request) {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    request.on('data', chunk => (body += chunk));
+    request.on('end', () => resolve(body));
+    request.on('error', reject);
+  });
+}
+
+const server = http.createServer(async (request, response) => {
+  const url = new URL(request.url ?? '/', `http://${request.headers.host}`);
+  const sessionId = url.searchParams.get('session');
+
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204, CORS_HEADERS).end();
+    return;
+  }
+
+  if (!sessionId) {
+    response.writeHead(400, CORS_HEADERS).end('Missing session');
+    return;
+  }
+
+  if (request.method === 'GET' && url.pathname === '/events') {
+    const rawLastId = request.headers['last-event-id'] ?? url.searchParams.get('lastEventId');
+    const existing = sessions.get(sessionId);
+    // Only a session that still exists can be resumed
+    const lastEventId = existing && rawLastId ? Number(rawLastId) : null;
+
+    let session = existing;
+    if (!session) {
+      session = new Session(sessionId);
+      sessions.set(sessionId, session);
+    }
+
+    session.attach(response, lastEventId);
+    request.on('close', () => session.detach(response));
+    return;
+  }
+
+  if (request.method === 'POST' && url.pathname === '/command') {
+    const session = sessions.get(sessionId);
+    if (!session) {
+      response.writeHead(404, CORS_HEADERS).end('Unknown session');
+      return;
+    }
+
+    try {
+      session.simulator.send(JSON.parse(await readBody(request)));
+    } catch {
+      response.writeHead(400, CORS_HEADERS).end('Malformed command');
+      return;
+    }
+    response.writeHead(204, CORS_HEADERS).end();
+    return;
+  }
+
+  response.writeHead(404, CORS_HEADERS).end();
+});
+
+server.listen(port, () => {
+  console.log(`Mock SSE feed listening on http://localhost:${port}/events`);
+});
@@ -0,0 +1,40 @@
+/**
+ * Mock WebSocket feed
+ *
+ * Serves the simulator over a WebSocket using the worker's JSON protocol,
+ * so WebSocketSource can be exercised locally without an outside service.
+ * Every connection gets its own simulator instance.
+ *
+ * Usage: npm run mock:ws   (PORT defaults to 8787)
+ */
+
+import { WebSocketServer } from 'ws';
+import { createSimulator } from './simulator.js';
+
+const port = Number(process.env.PORT ?? 8787);
+const wss = new WebSocketServer({ port });
+
+wss.on('connection', socket => {
+  const simulator = createSimulator(message => {
+    // Worker-to-main transport timings mean nothing over a socket
+    if (message.type === 'transportStats') return;
+    if (socket.readyState === socket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  });
+
+  socket.on('message', raw => {
+    let command;
+    try {
+      command = JSON.parse(raw.toString());
+    } catch {
+      console.warn('Ignoring malformed command:', raw.toString());
+      return;
+    }
+    simulator.send(command);
+  });
+
+  socket.on('close', () => simulator.dispose());
+});
+
+console.log(`Mock WebSocket feed listening on ws://localhost:${port}`);
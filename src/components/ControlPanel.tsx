@@ -1,37 +1,102 @@
-import React from 'react';
-import type { StreamConfig } from '@/types/ticker';
+import React, { useState } from 'react';
+import type {
+  CoalescingStrategy,
+  OverflowPolicy,
+  PriceModel,
+  ThrottleStrategyKind
+} from '@/types/ticker';
+import { useStream, useStreamControls } from '@/hooks/useStream';
 import { Slider } from '@/components/ui/slider';
 import { Switch } from '@/components/ui/switch';
 import { Button } from '@/components/ui/button';
-import { Play, Pause, RotateCcw, Zap } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { randomSeed } from '@/lib/utils';
+import { ScenarioPicker } from './ScenarioPicker';
+import { Play, Pause, RotateCcw, Zap, Shuffle, Repeat, Circle, Square, Eye } from 'lucide-react';
 
 /**
  * Control Panel Component
  * 
+ * Reads the stream state and controls from the surrounding
+ * StreamProvider (useStream, useStreamControls), never the stats, so a
+ * flush doesn't re-render it.
+ * 
  * Allows real-time configuration of:
  * - Update rate (updates per second from worker)
  * - Buffer interval (how often to flush to UI)
+ * - Buffer capacity and overflow policy (what gets lost when it's full)
+ * - Coalescing strategy (what a merged update remembers)
  * - Throttle threshold (when to start backpressure)
+ * - Throttle strategy (token bucket, AIMD, PID)
  * - Burst mode toggle (simulate extreme load)
+ * - Simulator seed (reproducible traffic; a typed seed applies on Enter
+ *   or blur, since every change restarts the simulation)
+ * - Price model (how the simulator moves prices)
+ * - Universe size (number of simulated symbols)
+ * - Credit window (credit-based flow control, off by default)
+ * - Traffic scenario (scripted load, overrides the update rate)
+ * - Session recording (downloads NDJSON when stopped)
  */
 
-interface ControlPanelProps {
-  config: StreamConfig;
-  isRunning: boolean;
-  onConfigChange: (updates: Partial<StreamConfig>) => void;
-  onStart: () => void;
-  onStop: () => void;
-  onReset: () => void;
-}
+// Universe slider snaps to these sizes (log-ish scale)
+const UNIVERSE_SIZES = [100, 500, 1000, 5000, 10000, 25000, 50000];
+
+// Buffer capacity slider snaps to these sizes
+const BUFFER_CAPACITIES = [100, 250, 500, 1000, 2500, 5000, 10000];
+
+const OVERFLOW_POLICY_LABELS: Record<OverflowPolicy, string> = {
+  'drop-oldest': 'Drop oldest',
+  'drop-newest': 'Drop newest',
+  priority: 'Evict smallest move',
+  'pause-source': 'Pause source'
+};
+
+const COALESCING_LABELS: Record<CoalescingStrategy, string> = {
+  latest: 'Latest wins',
+  'first-last': 'First and last',
+  ohlc: 'OHLC in window',
+  'sum-volume': 'Sum volume'
+};
+
+// Credit window slider snaps to these sizes; 0 = flow control off
+const CREDIT_WINDOWS = [0, 50, 100, 250, 500, 1000, 2500, 5000];
+
+const PRICE_MODEL_LABELS: Record<PriceModel, string> = {
+  uniform: 'Uniform ±2%',
+  gbm: 'GBM + sectors',
+  'jump-diffusion': 'GBM + jumps'
+};
+
+const THROTTLE_STRATEGY_LABELS: Record<ThrottleStrategyKind, string> = {
+  'token-bucket': 'Token bucket',
+  aimd: 'AIMD',
+  pid: 'PID (target depth)'
+};
+
+export function ControlPanel() {
+  const {
+    config,
+    isRunning,
+    scenarioProgress,
+    supportsScenarios,
+    supportsCredits,
+    batchingState: batching,
+    pinnedSymbols,
+    isRecording,
+    recordedBatches
+  } = useStream();
+  const {
+    updateConfig: onConfigChange,
+    start: onStart,
+    stop: onStop,
+    resetStats: onReset,
+    reseed: onReseed,
+    runScenario: onRunScenario,
+    toggleRecording: onToggleRecording
+  } = useStreamControls();
+  const pinnedCount = pinnedSymbols.size;
 
-export function ControlPanel({
-  config,
-  isRunning,
-  onConfigChange,
-  onStart,
-  onStop,
-  onReset
-}: ControlPanelProps) {
   return (
     <div className="bg-card border border-border rounded-lg p-4">
       <div className="flex flex-wrap items-center gap-6">
@@ -65,6 +130,26 @@ export function ControlPanel({
             <RotateCcw className="w-4 h-4" />
             Reset
           </Button>
+          
+          <Button
+            onClick={onToggleRecording}
+            variant="outline"
+            size="sm"
+            className="gap-2"
+            title={isRecording ? 'Stop and download NDJSON' : 'Record incoming batches'}
+          >
+            {isRecording ? (
+              <>
+                <Square className="w-4 h-4 text-[hsl(var(--price-down))]" />
+                {recordedBatches.toLocaleString()} batches
+              </>
+            ) : (
+              <>
+                <Circle className="w-4 h-4 text-[hsl(var(--price-down))]" />
+                Record
+              </>
+            )}
+          </Button>
         </div>
         
         {/* Update Rate Slider */}
@@ -74,7 +159,7 @@ export function ControlPanel({
               Update Rate
             </label>
             <span className="text-sm font-mono text-foreground">
-              {config.updatesPerSecond}/sec
+              {scenarioProgress ? 'scenario' : `${config.updatesPerSecond}/sec`}
             </span>
           </div>
           <Slider
@@ -82,31 +167,126 @@ export function ControlPanel({
             min={10}
             max={500}
             step={10}
+            disabled={scenarioProgress !== null}
             onValueChange={([value]) => onConfigChange({ updatesPerSecond: value })}
             className="control-slider"
           />
         </div>
         
-        {/* Buffer Interval Slider */}
+        {/* Universe Size Slider */}
         <div className="flex-1 min-w-48">
           <div className="flex items-center justify-between mb-2">
             <label className="text-xs text-muted-foreground uppercase tracking-wider">
-              Buffer Interval
+              Universe
             </label>
             <span className="text-sm font-mono text-foreground">
-              {config.bufferIntervalMs}ms
+              {config.universeSize.toLocaleString()} symbols
             </span>
           </div>
+          <Slider
+            value={[Math.max(0, UNIVERSE_SIZES.indexOf(config.universeSize))]}
+            min={0}
+            max={UNIVERSE_SIZES.length - 1}
+            step={1}
+            onValueChange={([value]) => onConfigChange({ universeSize: UNIVERSE_SIZES[value] })}
+            className="control-slider"
+          />
+        </div>
+        
+        {/* Buffer Interval Slider */}
+        <div className="flex-1 min-w-48">
+          <div className="flex items-center justify-between mb-2">
+            <label className="text-xs text-muted-foreground uppercase tracking-wider">
+              Buffer Interval
+            </label>
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-mono text-foreground">
+                {config.adaptiveBatching
+                  ? `auto · ${batching?.intervalMs ?? config.bufferIntervalMs}ms`
+                  : `${config.bufferIntervalMs}ms`}
+              </span>
+              <Switch
+                checked={config.adaptiveBatching}
+                onCheckedChange={(checked) => onConfigChange({ adaptiveBatching: checked })}
+                aria-label="Adaptive batching"
+              />
+            </div>
+          </div>
           <Slider
             value={[config.bufferIntervalMs]}
             min={16}
             max={200}
             step={16}
+            disabled={config.adaptiveBatching}
             onValueChange={([value]) => onConfigChange({ bufferIntervalMs: value })}
             className="control-slider"
           />
         </div>
         
+        {/* Buffer Capacity Slider */}
+        <div className="flex-1 min-w-48">
+          <div className="flex items-center justify-between mb-2">
+            <label className="text-xs text-muted-foreground uppercase tracking-wider">
+              Buffer Capacity
+            </label>
+            <span className="text-sm font-mono text-foreground">
+              {config.bufferCapacity.toLocaleString()}
+            </span>
+          </div>
+          <Slider
+            value={[Math.max(0, BUFFER_CAPACITIES.indexOf(config.bufferCapacity))]}
+            min={0}
+            max={BUFFER_CAPACITIES.length - 1}
+            step={1}
+            onValueChange={([value]) => onConfigChange({ bufferCapacity: BUFFER_CAPACITIES[value] })}
+            className="control-slider"
+          />
+        </div>
+        
+        {/* Overflow Policy */}
+        <div className="flex flex-col">
+          <label className="text-xs text-muted-foreground uppercase tracking-wider mb-1">
+            On Overflow
+          </label>
+          <Select
+            value={config.overflowPolicy}
+            onValueChange={(value) => onConfigChange({ overflowPolicy: value as OverflowPolicy })}
+          >
+            <SelectTrigger className="h-8 w-40 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(OVERFLOW_POLICY_LABELS) as OverflowPolicy[]).map(policy => (
+                <SelectItem key={policy} value={policy} className="text-xs">
+                  {OVERFLOW_POLICY_LABELS[policy]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        
+        {/* Coalescing Strategy */}
+        <div className="flex flex-col">
+          <label className="text-xs text-muted-foreground uppercase tracking-wider mb-1">
+            Coalescing
+          </label>
+          <Select
+            value={config.coalescing}
+            onValueChange={(value) => onConfigChange({ coalescing: value as CoalescingStrategy })}
+          >
+            <SelectTrigger className="h-8 w-36 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(COALESCING_LABELS) as CoalescingStrategy[]).map(strategy => (
+                <SelectItem key={strategy} value={strategy} className="text-xs">
+                  {COALESCING_LABELS[strategy]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        
         {/* Throttle Threshold Slider */}
         <div className="flex-1 min-w-48">
           <div className="flex items-center justify-between mb-2">
@@ -127,6 +307,122 @@ export function ControlPanel({
           />
         </div>
         
+        {/* Throttle Strategy */}
+        <div className="flex flex-col">
+          <label className="text-xs text-muted-foreground uppercase tracking-wider mb-1">
+            Throttle
+          </label>
+          <Select
+            value={config.throttleStrategy}
+            onValueChange={(value) => onConfigChange({ throttleStrategy: value as ThrottleStrategyKind })}
+          >
+            <SelectTrigger className="h-8 w-36 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(THROTTLE_STRATEGY_LABELS) as ThrottleStrategyKind[]).map(strategy => (
+                <SelectItem key={strategy} value={strategy} className="text-xs">
+                  {THROTTLE_STRATEGY_LABELS[strategy]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        
+        {/* Credit Window Slider */}
+        <div className="flex-1 min-w-48">
+          <div className="flex items-center justify-between mb-2">
+            <label className="text-xs text-muted-foreground uppercase tracking-wider">
+              Credit Window
+            </label>
+            <span className="text-sm font-mono text-foreground">
+              {config.creditWindow > 0 ? config.creditWindow.toLocaleString() : 'off'}
+            </span>
+          </div>
+          <Slider
+            value={[Math.max(0, CREDIT_WINDOWS.indexOf(config.creditWindow))]}
+            min={0}
+            max={CREDIT_WINDOWS.length - 1}
+            step={1}
+            disabled={!supportsCredits}
+            onValueChange={([value]) => onConfigChange({ creditWindow: CREDIT_WINDOWS[value] })}
+            className="control-slider"
+          />
+        </div>
+        
+        {/* Price Model */}
+        <div className="flex flex-col">
+          <label className="text-xs text-muted-foreground uppercase tracking-wider mb-1">
+            Price Model
+          </label>
+          <Select
+            value={config.priceModel}
+            onValueChange={(value) => onConfigChange({ priceModel: value as PriceModel })}
+          >
+            <SelectTrigger className="h-8 w-36 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(PRICE_MODEL_LABELS) as PriceModel[]).map(model => (
+                <SelectItem key={model} value={model} className="text-xs">
+                  {PRICE_MODEL_LABELS[model]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        
+        {/* Simulator Seed */}
+        <div className="flex flex-col">
+          <label className="text-xs text-muted-foreground uppercase tracking-wider mb-1">
+            Seed
+          </label>
+          <div className="flex items-center gap-1">
+            <SeedInput seed={config.seed} onChange={(seed) => onConfigChange({ seed })} />
+            <Button
+              onClick={() => onConfigChange({ seed: randomSeed() })}
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              title="New random seed"
+            >
+              <Shuffle className="w-4 h-4" />
+            </Button>
+            <Button
+              onClick={onReseed}
+              variant="outline"
+              size="icon"
+              className="h-8 w-8"
+              title="Restart simulation from this seed"
+            >
+              <Repeat className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+        
+        {/* Traffic Scenario */}
+        <ScenarioPicker
+          progress={scenarioProgress}
+          disabled={!supportsScenarios}
+          onRunScenario={onRunScenario}
+        />
+        
+        {/* Priority Lanes Toggle */}
+        <div className="flex items-center gap-3">
+          <div className="flex flex-col items-end">
+            <label className="text-xs text-muted-foreground uppercase tracking-wider mb-1">
+              Priority Lanes
+            </label>
+            <div className="flex items-center gap-2">
+              <Eye className={`w-4 h-4 ${config.priorityLanes ? 'text-primary' : 'text-muted-foreground'}`} />
+              <Switch
+                checked={config.priorityLanes}
+                onCheckedChange={(checked) => onConfigChange({ priorityLanes: checked })}
+              />
+            </div>
+          </div>
+        </div>
+        
         {/* Burst Mode Toggle */}
         <div className="flex items-center gap-3">
           <div className="flex flex-col items-end">
@@ -148,13 +444,23 @@ export function ControlPanel({
       <div className="mt-4 pt-4 border-t border-border">
         <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
           <span>
-            <strong className="text-foreground">Buffering:</strong> Batches updates every {config.bufferIntervalMs}ms
+            <strong className="text-foreground">Buffering:</strong>{' '}
+            {config.adaptiveBatching && batching
+              ? <>Auto batching every <span className="font-mono text-foreground">{batching.intervalMs}ms</span>, {Number.isFinite(batching.batchSize) ? `≤${batching.batchSize.toLocaleString()} rows` : 'all rows'} per flush ({batching.costMs.toFixed(1)}ms of {batching.budgetMs}ms budget)</>
+              : <>Batches updates every {config.bufferIntervalMs}ms</>}
+            , up to {config.bufferCapacity.toLocaleString()} symbols
           </span>
+          {config.priorityLanes && (
+            <span>
+              <strong className="text-foreground">Priority:</strong> Visible{pinnedCount > 0 && ` and ${pinnedCount} pinned`} rows every frame, off-screen rows coalesce between flushes
+            </span>
+          )}
           <span>
-            <strong className="text-foreground">Coalescing:</strong> Merges duplicate symbol updates
+            <strong className="text-foreground">Coalescing:</strong> Merges duplicate symbol updates ({COALESCING_LABELS[config.coalescing].toLowerCase()})
           </span>
           <span>
-            <strong className="text-foreground">Backpressure:</strong> Throttles at {config.throttleThreshold} queued items
+            <strong className="text-foreground">Backpressure:</strong> {THROTTLE_STRATEGY_LABELS[config.throttleStrategy]} around {config.throttleThreshold} queued items
+            {config.creditWindow > 0 && `, source limited to ${config.creditWindow} in flight`}
           </span>
           <span>
             <strong className="text-foreground">Windowing:</strong> Virtual list renders only visible rows
@@ -164,3 +470,34 @@ export function ControlPanel({
     </div>
   );
 }
+
+/**
+ * Seed field that holds what is typed until Enter or blur (Escape
+ * reverts), so a half-typed seed doesn't restart the simulation
+ */
+function SeedInput({ seed, onChange }: { seed: number; onChange: (seed: number) => void }) {
+  // null while not editing, so a new seed from elsewhere shows up
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const apply = () => {
+    if (draft === null) return;
+    const value = parseInt(draft, 10);
+    if (!Number.isNaN(value) && value >>> 0 !== seed) onChange(value >>> 0);
+    setDraft(null);
+  };
+
+  return (
+    <Input
+      type="number"
+      value={draft ?? seed}
+      min={0}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={apply}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') apply();
+        if (e.key === 'Escape') setDraft(null);
+      }}
+      className="h-8 w-32 font-mono text-xs"
+    />
+  );
+}
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import type { FaultConfig, FaultStats } from '@/types/ticker';
+import { hasFaults, NO_FAULTS } from '@/lib/faults';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Bug, Hourglass, RotateCcw } from 'lucide-react';
+
+/**
+ * Fault Panel
+ *
+ * Makes the simulated feed misbehave on purpose: lost, duplicated,
+ * reordered, delayed and malformed batches, or a stall that holds
+ * everything back and then releases it in one burst. Watch the Sequence
+ * stats card and the table to see how the pipeline copes. Every fault
+ * is 0 (off) by default.
+ */
+
+interface FaultPanelProps {
+  faults: FaultConfig;
+  stats: FaultStats | null;
+  onChange: (faults: FaultConfig) => void;
+  onStall: (durationMs: number) => void;
+}
+
+interface FaultField {
+  key: keyof FaultConfig;
+  label: string;
+  max: number;
+}
+
+const FAULT_FIELDS: FaultField[] = [
+  { key: 'dropPercent', label: 'Drop %', max: 100 },
+  { key: 'duplicatePercent', label: 'Duplicate %', max: 100 },
+  { key: 'reorderWindow', label: 'Reorder window', max: 50 },
+  { key: 'jitterMs', label: 'Jitter (ms)', max: 5000 },
+  { key: 'malformedPercent', label: 'Malformed %', max: 100 }
+];
+
+const STAT_LABELS: Record<keyof FaultStats, string> = {
+  dropped: 'dropped',
+  duplicated: 'duplicated',
+  reordered: 'reordered',
+  delayed: 'delayed',
+  malformed: 'malformed',
+  stalled: 'stalled'
+};
+
+export function FaultPanel({ faults, stats, onChange, onStall }: FaultPanelProps) {
+  const [stallSeconds, setStallSeconds] = useState(3);
+  const active = hasFaults(faults);
+
+  return (
+    <div className={`bg-card border rounded-lg p-4 ${active ? 'border-destructive/40' : 'border-border'}`}>
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Bug className={`w-4 h-4 ${active ? 'text-destructive' : 'text-primary'}`} />
+          <span className="text-xs text-muted-foreground uppercase tracking-wider">
+            Fault Injection
+          </span>
+        </div>
+        {stats && (
+          <span className="text-xs text-muted-foreground font-mono">
+            {(Object.keys(STAT_LABELS) as (keyof FaultStats)[])
+              .map(key => `${stats[key].toLocaleString()} ${STAT_LABELS[key]}`)
+              .join(' · ')}
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        {FAULT_FIELDS.map(({ key, label, max }) => (
+          <div key={key} className="flex flex-col">
+            <label className="text-xs text-muted-foreground uppercase tracking-wider mb-1">
+              {label}
+            </label>
+            {/* Empty or invalid input reads as 0 (off) */}
+            <Input
+              type="number"
+              min={0}
+              max={max}
+              value={faults[key]}
+              onChange={(event) => onChange({
+                ...faults,
+                [key]: Math.min(max, Math.max(0, Number(event.target.value) || 0))
+              })}
+              className="h-8 w-28 text-xs font-mono text-right"
+            />
+          </div>
+        ))}
+
+        <div className="flex flex-col">
+          <label className="text-xs text-muted-foreground uppercase tracking-wider mb-1">
+            Stall (s)
+          </label>
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min={1}
+              max={60}
+              value={stallSeconds}
+              onChange={(event) => setStallSeconds(Math.min(60, Math.max(1, Number(event.target.value) || 1)))}
+              className="h-8 w-20 text-xs font-mono text-right"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8 gap-1 text-xs"
+              onClick={() => onStall(stallSeconds * 1000)}
+            >
+              <Hourglass className="w-3 h-3" />
+              Stall
+            </Button>
+          </div>
+        </div>
+
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 gap-1 text-xs"
+          disabled={!active}
+          onClick={() => onChange(NO_FAULTS)}
+        >
+          <RotateCcw className="w-3 h-3" />
+          Clear faults
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import React from 'react';
+import { useBreadth } from '@/hooks/useStream';
+import { TrendingUp, TrendingDown } from 'lucide-react';
+
+/**
+ * Market Breadth
+ *
+ * Advancing vs declining symbols across the whole universe. A standalone
+ * widget: it reads the counts the ticker store keeps (useBreadth()) from
+ * the surrounding StreamProvider, so a commit never scans the rows, and
+ * re-renders only when the counts change.
+ */
+
+export function MarketBreadth() {
+  const { advancing, declining } = useBreadth();
+
+  return (
+    <div className="flex items-center gap-3 text-xs font-mono tabular-nums">
+      <span className="flex items-center gap-1 price-up">
+        <TrendingUp className="w-3 h-3" />
+        {advancing.toLocaleString()}
+      </span>
+      <span className="flex items-center gap-1 price-down">
+        <TrendingDown className="w-3 h-3" />
+        {declining.toLocaleString()}
+      </span>
+    </div>
+  );
+}
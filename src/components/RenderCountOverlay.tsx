@@ -0,0 +1,37 @@
+import React, { useEffect, useState } from 'react';
+import { renderCounts } from '@/hooks/useRenderCount';
+import { Gauge } from 'lucide-react';
+
+/**
+ * Render Count Overlay
+ *
+ * Shows how often the ticker table, the virtual list and the rows have
+ * rendered (see hooks/useRenderCount.ts), to show that a flush re-renders
+ * only the rows whose symbol changed. Each row can also show its own
+ * render count when the overlay is on.
+ */
+
+export function RenderCountOverlay() {
+  const [counts, setCounts] = useState({ ...renderCounts });
+  const [rowsPerSecond, setRowsPerSecond] = useState(0);
+
+  // Poll once a second; subscribing would itself cause renders
+  useEffect(() => {
+    let lastRows = renderCounts.row;
+    const interval = setInterval(() => {
+      setCounts({ ...renderCounts });
+      setRowsPerSecond(renderCounts.row - lastRows);
+      lastRows = renderCounts.row;
+    }, 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  return (
+    <div className="flex items-center gap-3 text-xs font-mono text-muted-foreground">
+      <Gauge className="w-3 h-3 text-primary" />
+      <span>Table {counts.table.toLocaleString()}</span>
+      <span>List {counts.list.toLocaleString()}</span>
+      <span>Rows {counts.row.toLocaleString()} ({rowsPerSecond.toLocaleString()}/s)</span>
+    </div>
+  );
+}
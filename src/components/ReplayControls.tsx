@@ -0,0 +1,148 @@
+import React, { useRef, useState } from 'react';
+import type { ReplayProgress } from '@/types/ticker';
+import { parseRecording } from '@/lib/recording';
+import { REPLAY_SPEEDS, type ReplaySource } from '@/sources/ReplaySource';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FolderOpen, Repeat } from 'lucide-react';
+
+/**
+ * Replay Controls
+ *
+ * Loads an NDJSON recording into the ReplaySource and exposes speed,
+ * seek and loop. Play/pause stays on the main Start/Stop button.
+ */
+
+interface ReplayControlsProps {
+  source: ReplaySource;
+  progress: ReplayProgress | null;
+}
+
+function formatTime(ms: number) {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+export function ReplayControls({ source, progress }: ReplayControlsProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  // Slider position while dragging, so progress ticks don't fight the thumb
+  const [dragPosition, setDragPosition] = useState<number | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      source.load(parseRecording(await file.text()));
+      setFileName(file.name);
+      setLoadError(null);
+    } catch (error) {
+      setLoadError(`${file.name}: ${(error as Error).message}`);
+    }
+  };
+
+  const loaded = progress?.loaded ?? false;
+  const durationMs = progress?.durationMs ?? 0;
+  const positionMs = dragPosition ?? progress?.positionMs ?? 0;
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-4">
+      <div className="flex flex-wrap items-center gap-6">
+        <div className="flex items-center gap-2">
+          <Button
+            onClick={() => fileInputRef.current?.click()}
+            variant="outline"
+            size="sm"
+            className="gap-2"
+          >
+            <FolderOpen className="w-4 h-4" />
+            Load recording
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".ndjson,application/x-ndjson"
+            className="hidden"
+            onChange={handleFile}
+          />
+          <span className="text-xs text-muted-foreground font-mono">
+            {fileName ?? 'No recording loaded'}
+          </span>
+        </div>
+
+        {/* Seek */}
+        <div className="flex-1 min-w-64">
+          <div className="flex items-center justify-between mb-2">
+            <label className="text-xs text-muted-foreground uppercase tracking-wider">
+              Position
+            </label>
+            <span className="text-sm font-mono text-foreground">
+              {formatTime(positionMs)} / {formatTime(durationMs)}
+            </span>
+          </div>
+          <Slider
+            value={[positionMs]}
+            min={0}
+            max={Math.max(1, durationMs)}
+            step={100}
+            disabled={!loaded}
+            onValueChange={([value]) => setDragPosition(value)}
+            onValueCommit={([value]) => {
+              source.seek(value);
+              setDragPosition(null);
+            }}
+            className="control-slider"
+          />
+        </div>
+
+        {/* Speed */}
+        <div className="flex flex-col">
+          <label className="text-xs text-muted-foreground uppercase tracking-wider mb-1">
+            Speed
+          </label>
+          <Select
+            value={String(progress?.speed ?? 1)}
+            onValueChange={(value) => source.setSpeed(Number(value))}
+            disabled={!loaded}
+          >
+            <SelectTrigger className="h-8 w-24 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {REPLAY_SPEEDS.map(speed => (
+                <SelectItem key={speed} value={String(speed)} className="text-xs">
+                  {speed}×
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Loop */}
+        <div className="flex flex-col items-end">
+          <label className="text-xs text-muted-foreground uppercase tracking-wider mb-1">
+            Loop
+          </label>
+          <div className="flex items-center gap-2">
+            <Repeat className={`w-4 h-4 ${progress?.loop ? 'text-primary' : 'text-muted-foreground'}`} />
+            <Switch
+              checked={progress?.loop ?? false}
+              onCheckedChange={(checked) => source.setLoop(checked)}
+            />
+          </div>
+        </div>
+      </div>
+
+      {loadError && (
+        <div className="mt-3 text-xs text-destructive">{loadError}</div>
+      )}
+    </div>
+  );
+}
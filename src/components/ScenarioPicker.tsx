@@ -0,0 +1,116 @@
+import React, { useRef, useState } from 'react';
+import type { Scenario, ScenarioProgress } from '@/types/ticker';
+import { PRESET_SCENARIOS, parseScenario } from '@/lib/scenarios';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Progress } from '@/components/ui/progress';
+import { Button } from '@/components/ui/button';
+import { FileJson } from 'lucide-react';
+
+/**
+ * Scenario Picker
+ *
+ * Runs a scripted traffic timeline on the source: one of the presets or a
+ * custom scenario loaded from a JSON file. While a scenario runs, shows
+ * the current phase, target rate and overall progress.
+ */
+
+interface ScenarioPickerProps {
+  progress: ScenarioProgress | null;
+  disabled: boolean;
+  onRunScenario: (scenario: Scenario | null) => void;
+}
+
+const MANUAL = '__manual__';
+
+export function ScenarioPicker({ progress, disabled, onRunScenario }: ScenarioPickerProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const handleSelect = (name: string) => {
+    setLoadError(null);
+    onRunScenario(PRESET_SCENARIOS.find(scenario => scenario.name === name) ?? null);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const scenario = parseScenario(JSON.parse(await file.text()));
+      setLoadError(null);
+      onRunScenario(scenario);
+    } catch (error) {
+      setLoadError(`${file.name}: ${(error as Error).message}`);
+    }
+  };
+
+  const percent = progress && progress.totalMs > 0
+    ? (progress.elapsedMs / progress.totalMs) * 100
+    : 0;
+
+  return (
+    <div className="flex flex-col gap-2 min-w-64">
+      <label className="text-xs text-muted-foreground uppercase tracking-wider">
+        Scenario
+      </label>
+      <div className="flex items-center gap-1">
+        <Select
+          value={progress?.name ?? MANUAL}
+          onValueChange={handleSelect}
+          disabled={disabled}
+        >
+          <SelectTrigger className="h-8 w-44 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={MANUAL} className="text-xs">Manual rate</SelectItem>
+            {PRESET_SCENARIOS.map(scenario => (
+              <SelectItem key={scenario.name} value={scenario.name} className="text-xs">
+                {scenario.name}
+              </SelectItem>
+            ))}
+            {/* Custom scenarios need an item too, or the trigger renders blank */}
+            {progress && !PRESET_SCENARIOS.some(scenario => scenario.name === progress.name) && (
+              <SelectItem value={progress.name} className="text-xs">{progress.name}</SelectItem>
+            )}
+          </SelectContent>
+        </Select>
+        <Button
+          onClick={() => fileInputRef.current?.click()}
+          variant="outline"
+          size="icon"
+          className="h-8 w-8"
+          disabled={disabled}
+          title="Load scenario JSON"
+        >
+          <FileJson className="w-4 h-4" />
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={handleFile}
+        />
+      </div>
+
+      {progress && (
+        <div className="space-y-1">
+          <Progress value={percent} className="h-1.5" />
+          <div className="flex justify-between text-xs text-muted-foreground font-mono">
+            <span>
+              {progress.phaseIndex + 1}/{progress.phaseCount} {progress.phaseType}
+              {progress.loop && ' ↻'}
+            </span>
+            <span>{progress.rate.toLocaleString()}/sec</span>
+          </div>
+        </div>
+      )}
+
+      {loadError && (
+        <div className="text-xs text-destructive max-w-64">{loadError}</div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import React from 'react';
-import type { StreamStats } from '@/types/ticker';
-import { Activity, Database, Layers, Zap, AlertTriangle, CheckCircle } from 'lucide-react';
+import { useStreamStats } from '@/hooks/useStream';
+import { Activity, Database, Layers, Zap, AlertTriangle, CheckCircle, Coins, Trash2, Filter, ListOrdered } from 'lucide-react';
 
 /**
  * Statistics Dashboard Card
@@ -9,16 +9,20 @@ import { Activity, Database, Layers, Zap, AlertTriangle, CheckCircle } from 'luc
  * - Total updates received from worker
  * - Updates actually rendered to screen
  * - Current buffer size
- * - Coalesced (merged) updates
+ * - Updates dropped on buffer overflow
+ * - Coalesced (merged) updates, main thread and worker side
+ * - Updates filtered by symbol render policies
+ * - Sequence checks: stale and duplicate updates rejected, gaps resynced
  * - Updates per second throughput
  * - Throttling status
+ * - Flow control credits (when a credit window is set)
+ *
+ * Reads the stats slice of the surrounding StreamProvider
+ * (useStreamStats), so it is the one that re-renders on each flush.
  */
 
-interface StatsCardProps {
-  stats: StreamStats;
-}
-
-export function StatsCard({ stats }: StatsCardProps) {
+export function StatsCard() {
+  const stats = useStreamStats();
   const efficiency = stats.totalReceived > 0 
     ? ((stats.totalRendered / stats.totalReceived) * 100).toFixed(1)
     : '100.0';
@@ -27,8 +31,20 @@ export function StatsCard({ stats }: StatsCardProps) {
     ? ((stats.coalesced / stats.totalReceived) * 100).toFixed(1)
     : '0.0';
 
+  const dropRate = stats.totalReceived > 0
+    ? ((stats.dropped / stats.totalReceived) * 100).toFixed(1)
+    : '0.0';
+
+  const filterRate = stats.totalReceived > 0
+    ? ((stats.filtered / stats.totalReceived) * 100).toFixed(1)
+    : '0.0';
+
+  const outOfSequence = stats.rejected + stats.duplicates;
+
   return (
-    <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
+    <div className={`grid grid-cols-2 md:grid-cols-3 gap-3 ${
+      stats.credits ? 'lg:grid-cols-10' : 'lg:grid-cols-9'
+    }`}>
       {/* Updates Received */}
       <div className="stats-card">
         <div className="flex items-center gap-2 mb-2">
@@ -73,6 +89,22 @@ export function StatsCard({ stats }: StatsCardProps) {
         </div>
       </div>
       
+      {/* Dropped Updates */}
+      <div className={`stats-card ${
+        stats.dropped > 0 ? 'stats-card-warning' : 'stats-card-healthy'
+      }`}>
+        <div className="flex items-center gap-2 mb-2">
+          <Trash2 className="w-4 h-4 text-primary" />
+          <span className="text-xs text-muted-foreground uppercase tracking-wider">Dropped</span>
+        </div>
+        <div className="text-2xl font-bold tabular-nums text-foreground">
+          {stats.dropped.toLocaleString()}
+        </div>
+        <div className="text-xs text-muted-foreground mt-1">
+          {dropRate}% lost to overflow
+        </div>
+      </div>
+      
       {/* Coalesced Updates */}
       <div className="stats-card">
         <div className="flex items-center gap-2 mb-2">
@@ -84,6 +116,37 @@ export function StatsCard({ stats }: StatsCardProps) {
         </div>
         <div className="text-xs text-muted-foreground mt-1">
           {coalesceRate}% merged
+          {stats.workerCoalesced > 0 && ` · ${stats.workerCoalesced.toLocaleString()} in worker`}
+        </div>
+      </div>
+      
+      {/* Filtered by Symbol Policies */}
+      <div className="stats-card">
+        <div className="flex items-center gap-2 mb-2">
+          <Filter className="w-4 h-4 text-primary" />
+          <span className="text-xs text-muted-foreground uppercase tracking-wider">Filtered</span>
+        </div>
+        <div className="text-2xl font-bold tabular-nums text-foreground">
+          {stats.filtered.toLocaleString()}
+        </div>
+        <div className="text-xs text-muted-foreground mt-1">
+          {filterRate}% by symbol policy
+        </div>
+      </div>
+      
+      {/* Sequence Checks */}
+      <div className={`stats-card ${
+        outOfSequence > 0 || stats.gaps > 0 ? 'stats-card-warning' : 'stats-card-healthy'
+      }`}>
+        <div className="flex items-center gap-2 mb-2">
+          <ListOrdered className="w-4 h-4 text-primary" />
+          <span className="text-xs text-muted-foreground uppercase tracking-wider">Sequence</span>
+        </div>
+        <div className="text-2xl font-bold tabular-nums text-foreground">
+          {outOfSequence.toLocaleString()}
+        </div>
+        <div className="text-xs text-muted-foreground mt-1">
+          {stats.rejected.toLocaleString()} stale · {stats.duplicates.toLocaleString()} dup · {stats.gaps.toLocaleString()} gaps
         </div>
       </div>
       
@@ -122,6 +185,24 @@ export function StatsCard({ stats }: StatsCardProps) {
           {(stats.throttleLevel * 100).toFixed(0)}% pressure
         </div>
       </div>
+      
+      {/* Flow Control Credits */}
+      {stats.credits && (
+        <div className={`stats-card ${
+          stats.credits.outstanding < stats.credits.window * 0.1 ? 'stats-card-warning' : 'stats-card-healthy'
+        }`}>
+          <div className="flex items-center gap-2 mb-2">
+            <Coins className="w-4 h-4 text-primary" />
+            <span className="text-xs text-muted-foreground uppercase tracking-wider">Credits</span>
+          </div>
+          <div className="text-2xl font-bold tabular-nums text-foreground">
+            {Math.max(0, stats.credits.outstanding).toLocaleString()}
+          </div>
+          <div className="text-xs text-muted-foreground mt-1">
+            outstanding · {stats.credits.granted.toLocaleString()} granted
+          </div>
+        </div>
+      )}
     </div>
   );
 }
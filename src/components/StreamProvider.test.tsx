@@ -0,0 +1,111 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { act, render } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { DataSourceEvent, SourceConfig, StreamStats } from '@/types/ticker';
+import { PROTOCOL_VERSION } from '@/lib/protocol';
+import { BaseDataSource } from '@/sources/DataSource';
+import {
+  useStream,
+  useStreamControls,
+  useStreamStats,
+  type StreamControls,
+  type StreamValue
+} from '@/hooks/useStream';
+import { StreamProvider } from './StreamProvider';
+
+/**
+ * Renders the provider over a hand-fed source, with probes counting how
+ * often each slice hook re-renders its component.
+ */
+
+class ManualSource extends BaseDataSource {
+  readonly kind = 'manual';
+  connect() {}
+  disconnect() {}
+  start() {}
+  stop() {}
+  configure(_config: SourceConfig) {}
+  requestSymbols() {}
+  runScenario() {}
+
+  send(event: DataSourceEvent) {
+    this.emit(event);
+  }
+}
+
+describe('StreamProvider', () => {
+  let source: ManualSource;
+  let streams: StreamValue[];
+  let controls: StreamControls[];
+  let stats: StreamStats[];
+
+  function StreamProbe() {
+    streams.push(useStream());
+    return null;
+  }
+
+  function ControlsProbe() {
+    controls.push(useStreamControls());
+    return null;
+  }
+
+  function StatsProbe() {
+    stats.push(useStreamStats());
+    return null;
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'setInterval', 'requestAnimationFrame', 'performance', 'Date'] });
+    source = new ManualSource();
+    streams = [];
+    controls = [];
+    stats = [];
+    render(
+      <StreamProvider source={source} config={{ bufferIntervalMs: 50 }}>
+        <StreamProbe />
+        <ControlsProbe />
+        <StatsProbe />
+      </StreamProvider>
+    );
+    act(() => {
+      source.send({ type: 'ready', protocolVersion: PROTOCOL_VERSION });
+      source.send({
+        type: 'symbols',
+        data: [{ symbol: 'AAPL', price: 100, change: 0, volume: 0, timestamp: 0, id: 'AAPL-0' }]
+      });
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('re-renders only the stats slice on a flush', () => {
+    const streamRenders = streams.length;
+    const controlRenders = controls.length;
+    const statsRenders = stats.length;
+
+    act(() => {
+      source.send({
+        type: 'updates',
+        data: [{ symbol: 'AAPL', price: 101, change: 1, volume: 0, timestamp: 0, id: 'AAPL-1', seq: 1 }],
+        timestamp: 0
+      });
+      vi.advanceTimersByTime(1100);
+    });
+
+    expect(stats.length).toBeGreaterThan(statsRenders);
+    expect(stats[stats.length - 1].totalReceived).toBe(1);
+    expect(streams).toHaveLength(streamRenders);
+    expect(controls).toHaveLength(controlRenders);
+  });
+
+  it('keeps the controls stable while recording', () => {
+    const [first] = controls;
+    act(() => first.toggleRecording());
+
+    expect(streams[streams.length - 1].isRecording).toBe(true);
+    expect(controls[controls.length - 1]).toBe(first);
+  });
+});
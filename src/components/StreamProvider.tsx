@@ -0,0 +1,100 @@
+import React, { useMemo, useRef } from 'react';
+import type { StreamConfig } from '@/types/ticker';
+import type { DataSource } from '@/sources/DataSource';
+import { useDataStream } from '@/hooks/useDataStream';
+import { TickerStoreContext } from '@/hooks/useTicker';
+import {
+  StreamContext,
+  StreamControlsContext,
+  StreamStatsContext,
+  type StreamControls
+} from '@/hooks/useStream';
+
+/**
+ * Stream Provider
+ *
+ * Owns one streaming pipeline (one source, one worker) for everything
+ * below it. Widgets read slices through the hooks in hooks/useStream.ts
+ * instead of receiving props, and each slice is its own context so a
+ * stats tick doesn't re-render a widget that only uses controls or
+ * tickers. Stats change on every flush, so they are kept out of the
+ * useStream() slice, which only changes when some other part of the
+ * stream state does.
+ */
+
+interface StreamProviderProps {
+  config?: Partial<StreamConfig>;
+  source?: DataSource;
+  children: React.ReactNode;
+}
+
+// Same object as last render while every field is unchanged
+function useShallowStable<T extends object>(value: T): T {
+  const ref = useRef(value);
+  const previous = ref.current;
+  const keys = Object.keys(value) as (keyof T)[];
+  const changed = keys.length !== Object.keys(previous).length ||
+    keys.some(key => !Object.is(value[key], previous[key]));
+  if (changed) {
+    ref.current = value;
+  }
+  return ref.current;
+}
+
+export function StreamProvider({ config, source, children }: StreamProviderProps) {
+  const { stats, ...state } = useDataStream(config, source);
+  const stream = useShallowStable(state);
+  const {
+    store,
+    start,
+    stop,
+    reseed,
+    stall,
+    runScenario,
+    toggleRecording,
+    setVisibleSymbols,
+    togglePin,
+    updateConfig,
+    resetStats,
+    clearQuarantine
+  } = stream;
+
+  // useDataStream keeps its callbacks stable, so this object is too
+  const controls = useMemo<StreamControls>(() => ({
+    start,
+    stop,
+    reseed,
+    stall,
+    runScenario,
+    toggleRecording,
+    setVisibleSymbols,
+    togglePin,
+    updateConfig,
+    resetStats,
+    clearQuarantine
+  }), [
+    start,
+    stop,
+    reseed,
+    stall,
+    runScenario,
+    toggleRecording,
+    setVisibleSymbols,
+    togglePin,
+    updateConfig,
+    resetStats,
+    clearQuarantine
+  ]);
+
+  return (
+    <StreamContext.Provider value={stream}>
+      <StreamControlsContext.Provider value={controls}>
+        <StreamStatsContext.Provider value={stats}>
+          <TickerStoreContext.Provider value={store}>
+            {children}
+          </TickerStoreContext.Provider>
+        </StreamStatsContext.Provider>
+      </StreamControlsContext.Provider>
+    </StreamContext.Provider>
+  );
+}
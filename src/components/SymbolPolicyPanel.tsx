@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import type { SymbolPolicy } from '@/types/ticker';
+import { NO_SYMBOL_POLICY, PRICE_TICK } from '@/lib/symbolPolicy';
+import { useStreamStats } from '@/hooks/useStream';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Filter, Plus, X } from 'lucide-react';
+
+/**
+ * Symbol Policy Panel
+ *
+ * Edits the render policies applied as rows are patched: a global policy,
+ * plus per-symbol overrides for instruments that need their own limits.
+ * An override replaces the global policy for that symbol; 0 turns a
+ * limit off. The filtered count comes from the stats slice
+ * (useStreamStats).
+ */
+
+interface SymbolPolicyPanelProps {
+  policy: SymbolPolicy;
+  overrides: Record<string, SymbolPolicy>;
+  onChange: (updates: { symbolPolicy?: SymbolPolicy; symbolPolicies?: Record<string, SymbolPolicy> }) => void;
+}
+
+export function SymbolPolicyPanel({ policy, overrides, onChange }: SymbolPolicyPanelProps) {
+  const { filtered } = useStreamStats();
+  const [newSymbol, setNewSymbol] = useState('');
+  const symbols = Object.keys(overrides).sort();
+
+  const setOverride = (symbol: string, next: SymbolPolicy) => {
+    onChange({ symbolPolicies: { ...overrides, [symbol]: next } });
+  };
+
+  const removeOverride = (symbol: string) => {
+    const { [symbol]: _removed, ...rest } = overrides;
+    onChange({ symbolPolicies: rest });
+  };
+
+  const addOverride = (event: React.FormEvent) => {
+    event.preventDefault();
+    const symbol = newSymbol.trim().toUpperCase();
+    if (!symbol || overrides[symbol]) return;
+    // Start from the global policy so only the differences need editing
+    setOverride(symbol, { ...policy });
+    setNewSymbol('');
+  };
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Filter className="w-4 h-4 text-primary" />
+          <span className="text-xs text-muted-foreground uppercase tracking-wider">
+            Symbol Render Policies
+          </span>
+        </div>
+        <span className="text-xs text-muted-foreground font-mono">
+          {filtered.toLocaleString()} filtered
+        </span>
+      </div>
+
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-muted-foreground uppercase tracking-wider">
+            <th className="text-left font-normal pb-1">Symbol</th>
+            <th className="text-right font-normal pb-1">Max renders/s</th>
+            <th className="text-right font-normal pb-1">Min move (ticks of {PRICE_TICK})</th>
+            <th className="text-right font-normal pb-1">Min move %</th>
+            <th className="w-8" />
+          </tr>
+        </thead>
+        <tbody>
+          <PolicyRow
+            label="All symbols"
+            policy={policy}
+            onChange={(symbolPolicy) => onChange({ symbolPolicy })}
+            onReset={() => onChange({ symbolPolicy: NO_SYMBOL_POLICY })}
+          />
+          {symbols.map(symbol => (
+            <PolicyRow
+              key={symbol}
+              label={symbol}
+              policy={overrides[symbol]}
+              onChange={(next) => setOverride(symbol, next)}
+              onReset={() => removeOverride(symbol)}
+            />
+          ))}
+        </tbody>
+      </table>
+
+      <form onSubmit={addOverride} className="flex items-center gap-2 mt-3">
+        <Input
+          value={newSymbol}
+          onChange={(event) => setNewSymbol(event.target.value)}
+          placeholder="Symbol"
+          className="h-8 w-28 text-xs font-mono uppercase"
+        />
+        <Button type="submit" variant="outline" size="sm" className="h-8 gap-1 text-xs">
+          <Plus className="w-3 h-3" />
+          Override
+        </Button>
+      </form>
+    </div>
+  );
+}
+
+interface PolicyRowProps {
+  label: string;
+  policy: SymbolPolicy;
+  onChange: (policy: SymbolPolicy) => void;
+  onReset: () => void;
+}
+
+function PolicyRow({ label, policy, onChange, onReset }: PolicyRowProps) {
+  // Empty or invalid input reads as 0 (off)
+  const field = (key: keyof SymbolPolicy, step: number) => (
+    <Input
+      type="number"
+      min={0}
+      step={step}
+      value={policy[key]}
+      onChange={(event) => onChange({ ...policy, [key]: Math.max(0, Number(event.target.value) || 0) })}
+      className="h-7 w-24 ml-auto text-xs font-mono text-right"
+    />
+  );
+
+  return (
+    <tr>
+      <td className="py-1 font-mono text-foreground">{label}</td>
+      <td className="py-1">{field('maxRendersPerSecond', 1)}</td>
+      <td className="py-1">{field('minMoveTicks', 1)}</td>
+      <td className="py-1">{field('minMovePercent', 0.01)}</td>
+      <td className="py-1 text-right">
+        <button
+          type="button"
+          onClick={onReset}
+          aria-label={`Reset ${label}`}
+          className="text-muted-foreground hover:text-foreground"
+        >
+          <X className="w-3 h-3" />
+        </button>
+      </td>
+    </tr>
+  );
+}
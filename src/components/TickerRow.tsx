@@ -1,30 +1,47 @@
 import React, { memo } from 'react';
-import type { TickerState } from '@/types/ticker';
-import { TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import type { CoalescedMeta } from '@/types/ticker';
+import { useTicker } from '@/hooks/useTicker';
+import { useRenderCount } from '@/hooks/useRenderCount';
+import { TrendingUp, TrendingDown, Minus, Pin } from 'lucide-react';
 
 /**
  * Individual ticker row component
  * 
- * Uses React.memo for performance - prevents re-renders unless props change.
- * This is critical when you have thousands of rows.
+ * Subscribes to its own symbol in the ticker store (useTicker), so a
+ * flush re-renders only the rows whose symbol changed. React.memo keeps
+ * parent re-renders (scrolling) from re-rendering rows whose props didn't
+ * change. This is critical when you have thousands of rows.
  * 
  * Features:
  * - Flash animation on price updates (via CSS classes)
  * - Color coding for price direction
  * - Smooth transitions
+ * - Merge summary for coalesced rows ("12 ticks, range 101.20–101.90")
+ * - Pin toggle: pinned symbols stay in the every-frame priority lane
+ *   even when scrolled out of view
  */
 
 interface TickerRowProps {
-  ticker: TickerState;
+  symbol: string;
   index: number;
   rowHeight: number;
+  pinned: boolean;
+  onTogglePin?: (symbol: string) => void;
+  showRenderCount?: boolean;
 }
 
 export const TickerRow = memo(function TickerRow({ 
-  ticker, 
+  symbol, 
   index, 
-  rowHeight 
+  rowHeight,
+  pinned,
+  onTogglePin,
+  showRenderCount
 }: TickerRowProps) {
+  const ticker = useTicker(symbol);
+  const renderCount = useRenderCount('row');
+  if (!ticker) return null;
+  
   const isEven = index % 2 === 0;
   const isUp = ticker.change > 0;
   const isDown = ticker.change < 0;
@@ -37,17 +54,19 @@ export const TickerRow = memo(function TickerRow({
       : '';
   
   // Format price with 2 decimal places
-  const formattedPrice = ticker.price.toFixed(2);
+  const formattedPrice = formatFixed(ticker.price, 2);
   
   // Format change percentage
-  const formattedChange = `${isUp ? '+' : ''}${ticker.change.toFixed(2)}%`;
+  const formattedChange = `${isUp ? '+' : ''}${formatFixed(ticker.change, 2)}%`;
   
   // Format volume with K/M suffixes
-  const formattedVolume = ticker.volume >= 1000000 
-    ? `${(ticker.volume / 1000000).toFixed(1)}M`
-    : ticker.volume >= 1000 
-      ? `${(ticker.volume / 1000).toFixed(0)}K`
-      : ticker.volume.toString();
+  const formattedVolume = !isFiniteNumber(ticker.volume)
+    ? '—'
+    : ticker.volume >= 1000000 
+      ? `${(ticker.volume / 1000000).toFixed(1)}M`
+      : ticker.volume >= 1000 
+        ? `${(ticker.volume / 1000).toFixed(0)}K`
+        : ticker.volume.toString();
   
   return (
     <div 
@@ -59,7 +78,18 @@ export const TickerRow = memo(function TickerRow({
       style={{ height: rowHeight }}
     >
       {/* Symbol */}
-      <div className="w-24 font-semibold text-foreground">
+      <div className="w-24 flex items-center gap-1.5 font-semibold text-foreground">
+        {onTogglePin && (
+          <button
+            type="button"
+            onClick={() => onTogglePin(ticker.symbol)}
+            aria-label={pinned ? `Unpin ${ticker.symbol}` : `Pin ${ticker.symbol}`}
+            aria-pressed={pinned}
+            className={pinned ? 'text-primary' : 'text-muted-foreground/40 hover:text-muted-foreground'}
+          >
+            <Pin className="w-3 h-3" />
+          </button>
+        )}
         {ticker.symbol}
       </div>
       
@@ -91,8 +121,42 @@ export const TickerRow = memo(function TickerRow({
       
       {/* Last update time */}
       <div className="flex-1 text-right text-xs text-muted-foreground/60">
+        {ticker.coalesced && (
+          <span className="mr-3 text-muted-foreground tabular-nums">
+            {describeCoalesced(ticker.coalesced)}
+          </span>
+        )}
+        {showRenderCount && (
+          <span className="mr-2 px-1 rounded bg-primary/10 text-primary font-mono">
+            {renderCount}×
+          </span>
+        )}
         {new Date(ticker.timestamp).toLocaleTimeString()}
       </div>
     </div>
   );
 });
+
+// Malformed payloads (e.g. injected faults) can put anything in a field;
+// the row shows a dash rather than throwing
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function formatFixed(value: unknown, digits: number) {
+  return isFiniteNumber(value) ? value.toFixed(digits) : '—';
+}
+
+// Short summary of what a coalesced update merged
+function describeCoalesced(meta: CoalescedMeta) {
+  const parts = [`${meta.ticks} ticks`];
+  if (meta.low !== undefined && meta.high !== undefined) {
+    parts.push(`range ${formatFixed(meta.low, 2)}–${formatFixed(meta.high, 2)}`);
+  } else if (meta.open !== undefined) {
+    parts.push(`from ${formatFixed(meta.open, 2)}`);
+  }
+  if (meta.volume !== undefined) {
+    parts.push(`vol ${meta.volume.toLocaleString()}`);
+  }
+  return parts.join(', ');
+}
@@ -1,22 +1,39 @@
-import React, { useRef, useState, useEffect } from 'react';
-import type { TickerState } from '@/types/ticker';
+import React, { memo, useRef, useState, useEffect } from 'react';
+import { useTickerSymbols } from '@/hooks/useTicker';
+import { useRenderCount } from '@/hooks/useRenderCount';
+import { Switch } from '@/components/ui/switch';
 import { VirtualList } from './VirtualList';
+import { RenderCountOverlay } from './RenderCountOverlay';
 
 /**
  * Ticker Table Container
  * 
  * Wraps the VirtualList with a header and manages container sizing.
  * The table displays stock data in a clean, terminal-style format.
+ * 
+ * Reads the symbol list from the ticker store, and is memoized so the
+ * page re-rendering (stats, controls) doesn't re-render it; price
+ * updates only reach the rows. The render-count overlay shows it.
  */
 
 interface TickerTableProps {
-  tickers: TickerState[];
   rowHeight: number;
+  pinnedSymbols?: ReadonlySet<string>;
+  onTogglePin?: (symbol: string) => void;
+  onVisibleSymbolsChange?: (symbols: string[]) => void;
 }
 
-export function TickerTable({ tickers, rowHeight }: TickerTableProps) {
+export const TickerTable = memo(function TickerTable({
+  rowHeight,
+  pinnedSymbols,
+  onTogglePin,
+  onVisibleSymbolsChange
+}: TickerTableProps) {
+  useRenderCount('table');
+  const symbols = useTickerSymbols();
   const containerRef = useRef<HTMLDivElement>(null);
   const [containerHeight, setContainerHeight] = useState(400);
+  const [showRenderCounts, setShowRenderCounts] = useState(false);
   
   // Measure container height on mount and resize
   useEffect(() => {
@@ -57,20 +74,33 @@ export function TickerTable({ tickers, rowHeight }: TickerTableProps) {
       <div ref={containerRef} className="flex-1 min-h-0">
         {containerHeight > 0 && (
           <VirtualList
-            items={tickers}
+            symbols={symbols}
             rowHeight={rowHeight}
             containerHeight={containerHeight}
             overscan={5}
+            pinnedSymbols={pinnedSymbols}
+            onTogglePin={onTogglePin}
+            onVisibleSymbolsChange={onVisibleSymbolsChange}
+            showRenderCounts={showRenderCounts}
           />
         )}
       </div>
       
       {/* Table Footer */}
-      <div className="px-4 py-2 border-t border-border bg-muted/30">
+      <div className="px-4 py-2 border-t border-border bg-muted/30 flex flex-wrap items-center justify-between gap-2">
         <div className="text-xs text-muted-foreground">
-          Showing {tickers.length} symbols • Virtual rendering active
+          Showing {symbols.length} symbols
+          {pinnedSymbols && pinnedSymbols.size > 0 && ` • ${pinnedSymbols.size} pinned`}
+          {' '}• Virtual rendering active
+        </div>
+        <div className="flex items-center gap-3">
+          {showRenderCounts && <RenderCountOverlay />}
+          <label className="flex items-center gap-2 text-xs text-muted-foreground">
+            Render counts
+            <Switch checked={showRenderCounts} onCheckedChange={setShowRenderCounts} />
+          </label>
         </div>
       </div>
     </div>
   );
-}
+});
@@ -0,0 +1,177 @@
+import React from 'react';
+import type {
+  DeliveryMode,
+  RingStatus,
+  TransportMode,
+  TransportModeStats,
+  TransportStats
+} from '@/types/ticker';
+import { isSharedRingAvailable } from '@/lib/sharedRing';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeftRight } from 'lucide-react';
+
+/**
+ * Transport Panel
+ *
+ * Switches how the simulator worker hands update batches to the main
+ * thread (encoding, and push vs pull delivery), and compares the cost of
+ * each encoding side by side. Costs are
+ * cumulative since the source connected, so flip between modes under the
+ * same load to compare them.
+ *
+ * Latency is generation -> handed to the pipeline, so it includes time an
+ * update waits in the shared ring for the next flush; compare it with the
+ * flush interval to see how much of the budget is message passing.
+ */
+
+interface TransportPanelProps {
+  mode: TransportMode;
+  stats: TransportStats | null;
+  onModeChange: (mode: TransportMode) => void;
+  delivery: DeliveryMode;
+  supportsDelivery: boolean;
+  onDeliveryChange: (delivery: DeliveryMode) => void;
+}
+
+const TRANSPORT_LABELS: Record<TransportMode, string> = {
+  clone: 'Structured clone',
+  binary: 'Packed binary (transfer)',
+  shared: 'Shared ring (SharedArrayBuffer)'
+};
+
+const DELIVERY_LABELS: Record<DeliveryMode, string> = {
+  push: 'Push every batch',
+  pull: 'Pull coalesced per flush'
+};
+
+// Average microseconds per update, or a dash before any traffic
+function perUpdate(ms: number, updates: number) {
+  return updates > 0 ? `${((ms * 1000) / updates).toFixed(2)} µs` : '—';
+}
+
+export function TransportPanel({
+  mode,
+  stats,
+  onModeChange,
+  delivery,
+  supportsDelivery,
+  onDeliveryChange
+}: TransportPanelProps) {
+  const sharedAvailable = isSharedRingAvailable();
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-4">
+      <div className="flex flex-wrap items-start gap-6">
+        <div className="flex flex-col">
+          <label className="text-xs text-muted-foreground uppercase tracking-wider mb-1">
+            Transport
+          </label>
+          <Select value={mode} onValueChange={(value) => onModeChange(value as TransportMode)}>
+            <SelectTrigger className="h-8 w-52 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(TRANSPORT_LABELS) as TransportMode[]).map(key => (
+                <SelectItem
+                  key={key}
+                  value={key}
+                  disabled={key === 'shared' && !sharedAvailable}
+                  className="text-xs"
+                >
+                  {TRANSPORT_LABELS[key]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {stats?.ring ? (
+            <RingReadout ring={stats.ring} />
+          ) : !sharedAvailable && (
+            <span className="text-xs text-muted-foreground mt-1">
+              Shared ring needs COOP/COEP headers
+            </span>
+          )}
+        </div>
+
+        {supportsDelivery && (
+          <div className="flex flex-col">
+            <label className="text-xs text-muted-foreground uppercase tracking-wider mb-1">
+              Delivery
+            </label>
+            <Select value={delivery} onValueChange={(value) => onDeliveryChange(value as DeliveryMode)}>
+              <SelectTrigger className="h-8 w-48 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(DELIVERY_LABELS) as DeliveryMode[]).map(key => (
+                  <SelectItem key={key} value={key} className="text-xs">
+                    {DELIVERY_LABELS[key]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <table className="flex-1 min-w-80 text-xs font-mono tabular-nums">
+          <thead>
+            <tr className="text-muted-foreground uppercase tracking-wider">
+              <th className="text-left font-normal pb-1">Mode</th>
+              <th className="text-right font-normal pb-1">Updates</th>
+              <th className="text-right font-normal pb-1">Send / update</th>
+              <th className="text-right font-normal pb-1">Receive / update</th>
+              <th className="text-right font-normal pb-1">Avg latency</th>
+            </tr>
+          </thead>
+          <tbody>
+            {(Object.keys(TRANSPORT_LABELS) as TransportMode[]).map(key => (
+              <TransportRow
+                key={key}
+                label={TRANSPORT_LABELS[key]}
+                active={(stats?.mode ?? mode) === key}
+                stats={stats?.modes[key]}
+              />
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+interface TransportRowProps {
+  label: string;
+  active: boolean;
+  stats?: TransportModeStats;
+}
+
+function TransportRow({ label, active, stats }: TransportRowProps) {
+  const updates = stats?.updates ?? 0;
+
+  return (
+    <tr className={active ? 'text-foreground' : 'text-muted-foreground'}>
+      <td className="py-0.5">
+        <span className="inline-flex items-center gap-1">
+          {active && <ArrowLeftRight className="w-3 h-3 text-primary" />}
+          {label}
+        </span>
+      </td>
+      <td className="text-right">{updates.toLocaleString()}</td>
+      <td className="text-right">{perUpdate(stats?.sendMs ?? 0, updates)}</td>
+      <td className="text-right">{perUpdate(stats?.receiveMs ?? 0, updates)}</td>
+      <td className="text-right">
+        {updates > 0 ? `${((stats?.latencyMs ?? 0) / updates).toFixed(1)} ms` : '—'}
+      </td>
+    </tr>
+  );
+}
+
+function RingReadout({ ring }: { ring: RingStatus }) {
+  return (
+    <span className="text-xs text-muted-foreground font-mono mt-1">
+      Ring {ring.used.toLocaleString()} / {ring.capacity.toLocaleString()}
+      {ring.overflow > 0 && (
+        <span className="text-destructive"> · {ring.overflow.toLocaleString()} overflowed</span>
+      )}
+    </span>
+  );
+}
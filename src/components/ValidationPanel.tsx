@@ -0,0 +1,125 @@
+import React from 'react';
+import type { QuarantinedMessage } from '@/lib/messageValidation';
+import { useStreamStats } from '@/hooks/useStream';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ShieldAlert, ShieldCheck, Trash } from 'lucide-react';
+
+/**
+ * Validation Panel
+ *
+ * Sets how many update batches are validated in full, and lists the
+ * messages that failed validation and were quarantined: when, which
+ * type, what was wrong, and a preview of the payload. The log keeps the
+ * latest 50; the quarantined count covers everything since the stats
+ * were reset. The counts come from the stats slice (useStreamStats).
+ */
+
+interface ValidationPanelProps {
+  sampleRate: number;
+  entries: readonly QuarantinedMessage[];
+  onSampleRateChange: (sampleRate: number) => void;
+  onClear: () => void;
+}
+
+const SAMPLE_RATE_LABELS: Record<string, string> = {
+  '1': 'Every batch',
+  '0.5': '1 in 2 batches',
+  '0.1': '1 in 10 batches',
+  '0.01': '1 in 100 batches',
+  '0': 'Envelope only'
+};
+
+export function ValidationPanel({
+  sampleRate,
+  entries,
+  onSampleRateChange,
+  onClear
+}: ValidationPanelProps) {
+  const { validated, quarantined: quarantinedCount } = useStreamStats();
+  const Icon = quarantinedCount > 0 ? ShieldAlert : ShieldCheck;
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Icon className={`w-4 h-4 ${quarantinedCount > 0 ? 'text-destructive' : 'text-primary'}`} />
+          <span className="text-xs text-muted-foreground uppercase tracking-wider">
+            Message Validation
+          </span>
+        </div>
+        <span className="text-xs text-muted-foreground font-mono">
+          {validated.toLocaleString()} validated · {quarantinedCount.toLocaleString()} quarantined
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4 mb-3">
+        <div className="flex flex-col">
+          <label className="text-xs text-muted-foreground uppercase tracking-wider mb-1">
+            Validate updates
+          </label>
+          <Select
+            value={String(sampleRate)}
+            onValueChange={(value) => onSampleRateChange(Number(value))}
+          >
+            <SelectTrigger className="h-8 w-40 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.keys(SAMPLE_RATE_LABELS).map(rate => (
+                <SelectItem key={rate} value={rate} className="text-xs">
+                  {SAMPLE_RATE_LABELS[rate]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 gap-1 text-xs"
+          disabled={entries.length === 0}
+          onClick={onClear}
+        >
+          <Trash className="w-3 h-3" />
+          Clear log
+        </Button>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No quarantined messages.</p>
+      ) : (
+        <ul className="max-h-64 overflow-y-auto space-y-2 text-xs">
+          {entries.map((entry, index) => (
+            <QuarantineEntry key={`${entry.receivedAt}-${index}`} entry={entry} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function QuarantineEntry({ entry }: { entry: QuarantinedMessage }) {
+  return (
+    <li className="border border-border rounded p-2">
+      <div className="flex items-center gap-2 font-mono">
+        <span className="text-muted-foreground">
+          {new Date(entry.receivedAt).toLocaleTimeString()}
+        </span>
+        <span className="text-destructive">{entry.type}</span>
+      </div>
+      <ul className="mt-1 text-muted-foreground">
+        {entry.issues.map((issue, index) => (
+          <li key={index} className="font-mono">{issue}</li>
+        ))}
+      </ul>
+      <details className="mt-1">
+        <summary className="cursor-pointer text-muted-foreground">Payload</summary>
+        <pre className="mt-1 whitespace-pre-wrap break-all font-mono text-muted-foreground/80">
+          {entry.payload}
+        </pre>
+      </details>
+    </li>
+  );
+}
@@ -1,6 +1,6 @@
 import React, { useCallback, useRef, useState, useEffect } from 'react';
-import type { TickerState } from '@/types/ticker';
 import { TickerRow } from './TickerRow';
+import { useRenderCount } from '@/hooks/useRenderCount';
 
 /**
  * WINDOWING / VIRTUALIZED RENDERING
@@ -18,22 +18,37 @@ import { TickerRow } from './TickerRow';
  * 
  * 3. PERFORMANCE
  *    - Fixed height items for O(1) position calculation
- *    - Minimal re-renders via React.memo on rows
+ *    - Works on symbols only: rows subscribe to their own ticker, so the
+ *      list re-renders on scroll or when the symbol list changes, never
+ *      on price updates
+ * 
+ * 4. PRIORITY LANE
+ *    - Reports the symbols it renders so the stream can flush them
+ *      every frame while off-screen rows keep coalescing
  */
 
 interface VirtualListProps {
-  items: TickerState[];
+  symbols: readonly string[];
   rowHeight: number;
   containerHeight: number;
   overscan?: number; // Extra rows to render above/below viewport
+  pinnedSymbols?: ReadonlySet<string>;
+  onTogglePin?: (symbol: string) => void;
+  onVisibleSymbolsChange?: (symbols: string[]) => void;
+  showRenderCounts?: boolean;
 }
 
 export function VirtualList({ 
-  items, 
+  symbols, 
   rowHeight, 
   containerHeight,
-  overscan = 5 
+  overscan = 5,
+  pinnedSymbols,
+  onTogglePin,
+  onVisibleSymbolsChange,
+  showRenderCounts
 }: VirtualListProps) {
+  useRenderCount('list');
   const containerRef = useRef<HTMLDivElement>(null);
   const [scrollTop, setScrollTop] = useState(0);
   
@@ -47,7 +62,7 @@ export function VirtualList({
   }, []);
   
   // Total height of all items (for scroll container)
-  const totalHeight = items.length * rowHeight;
+  const totalHeight = symbols.length * rowHeight;
   
   /**
    * VIEWPORT CALCULATION
@@ -55,14 +70,19 @@ export function VirtualList({
    */
   const startIndex = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
   const visibleCount = Math.ceil(containerHeight / rowHeight) + overscan * 2;
-  const endIndex = Math.min(items.length, startIndex + visibleCount);
+  const endIndex = Math.min(symbols.length, startIndex + visibleCount);
   
   // Slice only the visible items
-  const visibleItems = items.slice(startIndex, endIndex);
+  const visibleSymbols = symbols.slice(startIndex, endIndex);
   
   // Top padding to push visible items to correct position
   const offsetY = startIndex * rowHeight;
   
+  // The symbol list is a new array whenever it changes
+  useEffect(() => {
+    onVisibleSymbolsChange?.(symbols.slice(startIndex, endIndex));
+  }, [symbols, startIndex, endIndex, onVisibleSymbolsChange]);
+  
   return (
     <div
       ref={containerRef}
@@ -74,12 +94,15 @@ export function VirtualList({
       <div style={{ height: totalHeight, position: 'relative' }}>
         {/* Positioned container for visible items */}
         <div style={{ transform: `translateY(${offsetY}px)` }}>
-          {visibleItems.map((item, index) => (
+          {visibleSymbols.map((symbol, index) => (
             <TickerRow
-              key={item.symbol}
-              ticker={item}
+              key={symbol}
+              symbol={symbol}
               index={startIndex + index}
               rowHeight={rowHeight}
+              pinned={pinnedSymbols?.has(symbol) ?? false}
+              onTogglePin={onTogglePin}
+              showRenderCount={showRenderCounts}
             />
           ))}
         </div>
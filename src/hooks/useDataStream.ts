@@ -1,215 +1,144 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
 import type { 
-  TickerUpdate, 
-  TickerState, 
   StreamStats, 
   StreamConfig,
-  WorkerMessage,
-  WorkerCommand 
+  ConnectionState,
+  DataSourceEvent,
+  FaultStats,
+  Scenario,
+  ScenarioProgress,
+  ReplayProgress,
+  TransportStats
 } from '@/types/ticker';
+import type { DataSource } from '@/sources/DataSource';
+import { SimulatedWorkerSource } from '@/sources/SimulatedWorkerSource';
+import { randomSeed } from '@/lib/utils';
+import { StreamRecorder, downloadNdjson } from '@/lib/recording';
+import type { BatchingState } from '@/lib/adaptiveBatching';
+import type { QuarantinedMessage } from '@/lib/messageValidation';
+import { DEFAULT_STREAM_CONFIG, StreamPipeline } from '@/pipeline/StreamPipeline';
+import { browserClock, browserScheduler } from '@/pipeline/scheduler';
 
 /**
- * Custom hook that manages the entire real-time data streaming pipeline
+ * Custom hook that runs the real-time data streaming pipeline for React
  * 
- * This hook implements four key concepts:
+ * The pipeline itself is a plain class (pipeline/StreamPipeline.ts) on
+ * the browser clock and scheduler; this hook owns one, connects it to
+ * the data source and mirrors its events into React state. Together
+ * they implement four key concepts:
  * 
  * 1. BACKPRESSURE (Flow Control)
  *    - Monitors buffer size and applies throttling when overloaded
- *    - Adaptive throttling: as queue grows, consumption slows down
+ *    - Adaptive throttling: a pluggable, deterministic strategy (token
+ *      bucket, AIMD or PID, see lib/throttle.ts) decides when to skip flushes
  *    - Prevents UI from being overwhelmed by data
+ *    - Optional credits: the source may only have `creditWindow` updates
+ *      in flight, and each flush grants back what it consumed
  * 
  * 2. BUFFERING (Batch Updates)
  *    - Collects updates over configurable intervals (e.g., 50-100ms)
+ *    - Bounded: a full buffer drops, evicts or pauses the source according
+ *      to the overflow policy (see lib/updateBuffer.ts)
  *    - Applies buffered updates in batches using requestAnimationFrame
+ *    - Auto mode measures each flush (patch -> React commit -> next paint)
+ *      and tunes interval and batch size to a frame budget
  *    - Reduces React re-renders and layout thrashing
+ *    - Priority lanes: visible and pinned symbols flush every frame,
+ *      off-screen ones coalesce for the whole interval
+ *    - Symbol render policies (renders/sec, minimum move) filter noisy
+ *      instruments as rows are patched (see lib/symbolPolicy.ts)
  * 
  * 3. COALESCING (Merge Redundant Updates)
  *    - Multiple updates for same symbol in one buffer window = only latest kept
  *    - Uses Map keyed by symbol for O(1) lookup and merge
  *    - Dramatically reduces redundant state updates
+ *    - With pull delivery the source coalesces too, and each flush pulls
+ *      its latest-per-symbol snapshot (priority lane symbols every frame)
  * 
  * 4. WINDOWING (handled by VirtualList component)
- *    - This hook provides all data; VirtualList renders only visible rows
+ *    - The pipeline provides all data; VirtualList renders only visible rows
+ * 
+ * Ticker rows live in an external TickerStore (lib/tickerStore.ts). A
+ * flush patches only the rows it touches and notifies only their
+ * subscribers, so the per-flush cost is O(updates), not O(universe) -
+ * the universe can be tens of thousands of symbols. Rows read the store
+ * through useTicker(symbol); this hook re-renders only for stats and
+ * buffer pressure.
+ * 
+ * Every control callback is stable for the life of the hook: what they
+ * act on (the recorder, the active source) is read through refs.
+ * 
+ * Updates come from a pluggable DataSource. When none is passed, the
+ * simulator worker (SimulatedWorkerSource) is used.
  */
 
-const DEFAULT_CONFIG: StreamConfig = {
-  updatesPerSecond: 100,
-  bufferIntervalMs: 50,
-  throttleThreshold: 500,
-  windowSize: 20,
-  rowHeight: 48,
-  burstEnabled: false
+
+const EMPTY_STATS: StreamStats = {
+  totalReceived: 0,
+  totalRendered: 0,
+  bufferSize: 0,
+  dropped: 0,
+  coalesced: 0,
+  workerCoalesced: 0,
+  updatesPerSecond: 0,
+  isThrottling: false,
+  throttleLevel: 0,
+  credits: null,
+  filtered: 0,
+  rejected: 0,
+  duplicates: 0,
+  gaps: 0,
+  validated: 0,
+  quarantined: 0
 };
 
-export function useDataStream(initialConfig: Partial<StreamConfig> = {}) {
-  // Merge initial config with defaults
-  const [config, setConfig] = useState<StreamConfig>({ 
-    ...DEFAULT_CONFIG, 
-    ...initialConfig 
-  });
-  
-  // All ticker data, keyed by symbol
-  const [tickers, setTickers] = useState<Map<string, TickerState>>(new Map());
+export function useDataStream(
+  initialConfig: Partial<StreamConfig> = {},
+  source?: DataSource
+) {
+  // Merge initial config with defaults; the seed is randomized per session
+  // unless one is passed in
+  const [pipeline] = useState(() => new StreamPipeline(
+    { ...DEFAULT_STREAM_CONFIG, seed: randomSeed(), ...initialConfig },
+    { clock: browserClock, scheduler: browserScheduler }
+  ));
+  const [config, setConfig] = useState<StreamConfig>(() => pipeline.getConfig());
   
   // Stream statistics for dashboard
-  const [stats, setStats] = useState<StreamStats>({
-    totalReceived: 0,
-    totalRendered: 0,
-    bufferSize: 0,
-    coalesced: 0,
-    updatesPerSecond: 0,
-    isThrottling: false,
-    throttleLevel: 0
-  });
+  const [stats, setStats] = useState<StreamStats>(EMPTY_STATS);
   
   const [isRunning, setIsRunning] = useState(false);
-  const [isWorkerReady, setIsWorkerReady] = useState(false);
+  const [isSourceReady, setIsSourceReady] = useState(false);
+  const [sourceError, setSourceError] = useState<Error | null>(null);
+  const [connectionState, setConnectionState] = useState<ConnectionState>('connecting');
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  const [scenarioProgress, setScenarioProgress] = useState<ScenarioProgress | null>(null);
+  const [replayProgress, setReplayProgress] = useState<ReplayProgress | null>(null);
+  const [transportStats, setTransportStats] = useState<TransportStats | null>(null);
+  const [faultStats, setFaultStats] = useState<FaultStats | null>(null);
+  const [quarantined, setQuarantined] = useState<readonly QuarantinedMessage[]>(() => pipeline.quarantined);
+  const [batchingState, setBatchingState] = useState<BatchingState | null>(null);
+  const [pinnedSymbols, setPinnedSymbols] = useState<ReadonlySet<string>>(() => new Set());
   
-  // Refs for mutable state that shouldn't trigger re-renders
-  const workerRef = useRef<Worker | null>(null);
-  const bufferRef = useRef<Map<string, TickerUpdate>>(new Map());
-  const statsRef = useRef({ received: 0, rendered: 0, coalesced: 0 });
-  const lastFlushRef = useRef<number>(0);
-  const rafIdRef = useRef<number | null>(null);
-  const statsIntervalRef = useRef<number | null>(null);
-  const receivedInWindowRef = useRef<number>(0);
+  // Session recorder; batches are captured exactly as they arrive
+  const recorderRef = useRef<StreamRecorder | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordedBatches, setRecordedBatches] = useState(0);
   
-  /**
-   * COALESCING IMPLEMENTATION
-   * 
-   * When an update arrives, we check if we already have a pending update
-   * for this symbol in the buffer. If so, we replace it (keeping only latest).
-   * This is the core of coalescing - dropping redundant intermediate updates.
-   */
-  const addToBuffer = useCallback((updates: TickerUpdate[]) => {
-    let coalescedCount = 0;
-    
-    updates.forEach(update => {
-      if (bufferRef.current.has(update.symbol)) {
-        // This update replaces an existing one = coalesced
-        coalescedCount++;
-      }
-      // Map.set replaces existing entry, keeping only latest
-      bufferRef.current.set(update.symbol, update);
-    });
-    
-    statsRef.current.received += updates.length;
-    statsRef.current.coalesced += coalescedCount;
-    receivedInWindowRef.current += updates.length;
-  }, []);
-  
-  /**
-   * BUFFERING + BACKPRESSURE IMPLEMENTATION
-   * 
-   * This function flushes the buffer to state, applying:
-   * - Batching: all buffered updates applied in one setState
-   * - Backpressure: if buffer too large, we throttle by skipping frames
-   * 
-   * Uses requestAnimationFrame for smooth, synchronized updates
-   */
-  const flushBuffer = useCallback(() => {
-    const now = performance.now();
-    const bufferSize = bufferRef.current.size;
-    
-    /**
-     * BACKPRESSURE: Adaptive throttling
-     * If buffer size exceeds threshold, calculate throttle level
-     * and potentially skip this flush cycle
-     */
-    const throttleLevel = Math.min(1, Math.max(0, 
-      (bufferSize - config.throttleThreshold * 0.5) / (config.throttleThreshold * 0.5)
-    ));
-    
-    const isThrottling = bufferSize > config.throttleThreshold * 0.5;
-    
-    // If heavily throttling, randomly skip some flush cycles
-    if (throttleLevel > 0.5 && Math.random() < throttleLevel * 0.5) {
-      // Skip this flush to let buffer drain
-      rafIdRef.current = requestAnimationFrame(() => {
-        setTimeout(flushBuffer, config.bufferIntervalMs);
-      });
-      return;
-    }
-    
-    // Only flush if enough time has passed (buffer interval)
-    if (now - lastFlushRef.current < config.bufferIntervalMs) {
-      rafIdRef.current = requestAnimationFrame(() => {
-        setTimeout(flushBuffer, config.bufferIntervalMs - (now - lastFlushRef.current));
-      });
-      return;
-    }
-    
-    // Nothing to flush
-    if (bufferSize === 0) {
-      rafIdRef.current = requestAnimationFrame(() => {
-        setTimeout(flushBuffer, config.bufferIntervalMs);
-      });
-      return;
-    }
-    
-    lastFlushRef.current = now;
-    
-    // Get all buffered updates and clear buffer
-    const updates = Array.from(bufferRef.current.values());
-    bufferRef.current.clear();
-    
-    statsRef.current.rendered += updates.length;
-    
-    /**
-     * BATCHED STATE UPDATE
-     * Single setState call for all updates, preventing multiple re-renders
-     */
-    setTickers(prevTickers => {
-      const newTickers = new Map(prevTickers);
-      
-      updates.forEach(update => {
-        const existing = newTickers.get(update.symbol);
-        const previousPrice = existing?.price ?? update.price;
-        
-        // Determine flash direction for UI feedback
-        let flashDirection: 'up' | 'down' | null = null;
-        if (update.price > previousPrice) {
-          flashDirection = 'up';
-        } else if (update.price < previousPrice) {
-          flashDirection = 'down';
-        }
-        
-        newTickers.set(update.symbol, {
-          ...update,
-          previousPrice,
-          flashDirection,
-          lastUpdated: Date.now()
-        });
-      });
-      
-      return newTickers;
-    });
-    
-    // Update stats for UI (throttled to not overwhelm)
-    setStats(prev => ({
-      ...prev,
-      bufferSize,
-      isThrottling,
-      throttleLevel
-    }));
-    
-    // Schedule next flush
-    rafIdRef.current = requestAnimationFrame(() => {
-      setTimeout(flushBuffer, config.bufferIntervalMs);
-    });
-  }, [config.bufferIntervalMs, config.throttleThreshold]);
+  // Fall back to the simulator when no source is supplied
+  const [fallbackSource] = useState<DataSource>(() => new SimulatedWorkerSource());
+  const activeSource = source ?? fallbackSource;
+  const activeSourceRef = useRef(activeSource);
   
   /**
-   * Handle messages from Web Worker
+   * Mirror source events into React state
+   * The pipeline has already handled the data path by the time they arrive
    */
-  const handleWorkerMessage = useCallback((event: MessageEvent<WorkerMessage>) => {
-    const message = event.data;
-    
+  const handleSourceEvent = useCallback((message: DataSourceEvent) => {
     switch (message.type) {
       case 'ready':
-        setIsWorkerReady(true);
-        // Request initial symbols
-        workerRef.current?.postMessage({ type: 'getSymbols' });
+        setIsSourceReady(true);
+        setSourceError(null);
         break;
         
       case 'status':
@@ -217,150 +146,199 @@ export function useDataStream(initialConfig: Partial<StreamConfig> = {}) {
         break;
         
       case 'updates':
-        // Add incoming updates to buffer (coalescing happens here)
-        addToBuffer(message.data);
+        recorderRef.current?.record(message.data, performance.now());
+        break;
+        
+      case 'replay':
+        setReplayProgress(message.progress);
+        break;
+        
+      case 'scenario':
+        setScenarioProgress(message.progress);
         break;
         
-      case 'symbols':
-        // Initialize tickers with initial data
-        const initialTickers = new Map<string, TickerState>();
-        message.data.forEach(ticker => {
-          initialTickers.set(ticker.symbol, {
-            ...ticker,
-            lastUpdated: Date.now(),
-            flashDirection: null
-          });
-        });
-        setTickers(initialTickers);
+      case 'transport':
+        setTransportStats(message.stats);
+        break;
+        
+      case 'faultStats':
+        setFaultStats(message.stats);
+        break;
+        
+      case 'connection':
+        setConnectionState(message.state);
+        setReconnectAttempt(message.attempt);
+        break;
+        
+      case 'error':
+        setSourceError(message.error);
         break;
     }
-  }, [addToBuffer]);
-  
-  /**
-   * Initialize Web Worker
-   */
-  useEffect(() => {
-    workerRef.current = new Worker('/dataWorker.js');
-    workerRef.current.onmessage = handleWorkerMessage;
-    
-    return () => {
-      workerRef.current?.terminate();
-    };
-  }, [handleWorkerMessage]);
+  }, []);
   
-  /**
-   * Start buffer flush loop when running
-   */
   useEffect(() => {
-    if (isRunning) {
-      flushBuffer();
-    }
-    
-    return () => {
-      if (rafIdRef.current) {
-        cancelAnimationFrame(rafIdRef.current);
+    return pipeline.subscribe(event => {
+      switch (event.type) {
+        case 'source':
+          handleSourceEvent(event.event);
+          break;
+          
+        case 'flush':
+          // Buffer pressure after each flush (or throttled skip)
+          setStats(prev => ({
+            ...prev,
+            bufferSize: event.bufferSize,
+            isThrottling: event.isThrottling,
+            throttleLevel: event.throttleLevel
+          }));
+          break;
+          
+        case 'stats':
+          setStats(event.stats);
+          setBatchingState(event.batching);
+          // Same array until something new is quarantined
+          setQuarantined(pipeline.quarantined);
+          if (recorderRef.current) {
+            setRecordedBatches(recorderRef.current.batchCount);
+          }
+          break;
       }
-    };
-  }, [isRunning, flushBuffer]);
+    });
+  }, [pipeline, handleSourceEvent]);
   
   /**
-   * Update stats periodically
+   * Connect to the data source
+   * Swapping the source disconnects the old one and starts fresh
    */
   useEffect(() => {
-    statsIntervalRef.current = window.setInterval(() => {
-      setStats(prev => ({
-        ...prev,
-        totalReceived: statsRef.current.received,
-        totalRendered: statsRef.current.rendered,
-        coalesced: statsRef.current.coalesced,
-        updatesPerSecond: receivedInWindowRef.current
-      }));
-      receivedInWindowRef.current = 0;
-    }, 1000);
+    activeSourceRef.current = activeSource;
+    const disconnect = pipeline.connect(activeSource);
     
     return () => {
-      if (statsIntervalRef.current) {
-        clearInterval(statsIntervalRef.current);
-      }
+      disconnect();
+      setIsSourceReady(false);
+      setIsRunning(false);
+      setScenarioProgress(null);
+      setReplayProgress(null);
+      setTransportStats(null);
+      setFaultStats(null);
     };
-  }, []);
+  }, [pipeline, activeSource]);
   
-  /**
-   * Send config updates to worker
-   */
   useEffect(() => {
-    if (workerRef.current && isWorkerReady) {
-      workerRef.current.postMessage({
-        type: 'config',
-        updatesPerSecond: config.updatesPerSecond,
-        burstEnabled: config.burstEnabled
-      });
-    }
-  }, [config.updatesPerSecond, config.burstEnabled, isWorkerReady]);
+    pipeline.setPinnedSymbols(pinnedSymbols);
+  }, [pipeline, pinnedSymbols]);
   
   // Control functions
   const start = useCallback(() => {
-    workerRef.current?.postMessage({ type: 'start' });
-  }, []);
+    pipeline.start();
+  }, [pipeline]);
   
   const stop = useCallback(() => {
-    workerRef.current?.postMessage({ type: 'stop' });
+    pipeline.stop();
+  }, [pipeline]);
+  
+  const reseed = useCallback(() => {
+    pipeline.reseed();
+  }, [pipeline]);
+  
+  // Fault injection: hold the source's deliveries back for a while
+  const stall = useCallback((durationMs: number) => {
+    pipeline.stallSource(durationMs);
+  }, [pipeline]);
+  
+  // Scripted traffic, for sources that support it (null = manual rate)
+  const runScenario = useCallback((scenario: Scenario | null) => {
+    activeSourceRef.current.runScenario?.(scenario);
   }, []);
   
   const updateConfig = useCallback((updates: Partial<StreamConfig>) => {
-    setConfig(prev => ({ ...prev, ...updates }));
-  }, []);
+    pipeline.configure(updates);
+    setConfig(pipeline.getConfig());
+  }, [pipeline]);
   
-  const resetStats = useCallback(() => {
-    statsRef.current = { received: 0, rendered: 0, coalesced: 0 };
-    setStats({
-      totalReceived: 0,
-      totalRendered: 0,
-      bufferSize: 0,
-      coalesced: 0,
-      updatesPerSecond: 0,
-      isThrottling: false,
-      throttleLevel: 0
+  /**
+   * Start recording, or stop and download the capture as NDJSON
+   * The current ticker rows are saved as the starting snapshot
+   */
+  const toggleRecording = useCallback(() => {
+    const recorder = recorderRef.current;
+    if (recorder) {
+      recorderRef.current = null;
+      setIsRecording(false);
+      downloadNdjson(
+        recorder.toNdjson(),
+        `stream-${new Date().toISOString().replace(/[:.]/g, '-')}.ndjson`
+      );
+      return;
+    }
+    
+    const snapshot = pipeline.store.getRows().map(
+      ({ previousPrice, flashDirection, lastUpdated, coalesced, ...update }) => update
+    );
+    const next = new StreamRecorder();
+    next.start(snapshot, performance.now());
+    recorderRef.current = next;
+    setIsRecording(true);
+    setRecordedBatches(0);
+  }, [pipeline]);
+  
+  // VirtualList reports the symbols it renders; only read by the flush loop
+  const setVisibleSymbols = useCallback((symbols: string[]) => {
+    pipeline.setVisibleSymbols(symbols);
+  }, [pipeline]);
+  
+  const togglePin = useCallback((symbol: string) => {
+    setPinnedSymbols(prev => {
+      const next = new Set(prev);
+      if (!next.delete(symbol)) next.add(symbol);
+      return next;
     });
   }, []);
   
-  // Clear flash animations after they play
-  useEffect(() => {
-    const interval = setInterval(() => {
-      setTickers(prev => {
-        let hasChanges = false;
-        const now = Date.now();
-        
-        prev.forEach((ticker, symbol) => {
-          if (ticker.flashDirection && now - ticker.lastUpdated > 600) {
-            hasChanges = true;
-          }
-        });
-        
-        if (!hasChanges) return prev;
-        
-        const next = new Map(prev);
-        next.forEach((ticker, symbol) => {
-          if (ticker.flashDirection && now - ticker.lastUpdated > 600) {
-            next.set(symbol, { ...ticker, flashDirection: null });
-          }
-        });
-        return next;
-      });
-    }, 200);
-    
-    return () => clearInterval(interval);
-  }, []);
+  const resetStats = useCallback(() => {
+    pipeline.resetStats();
+  }, [pipeline]);
+  
+  const clearQuarantine = useCallback(() => {
+    pipeline.clearQuarantine();
+    setQuarantined(pipeline.quarantined);
+  }, [pipeline]);
   
   return {
-    tickers: Array.from(tickers.values()).sort((a, b) => a.symbol.localeCompare(b.symbol)),
+    pipeline,
+    store: pipeline.store,
     stats,
     config,
     isRunning,
-    isWorkerReady,
+    isSourceReady,
+    sourceError,
+    connectionState,
+    reconnectAttempt,
+    scenarioProgress,
+    supportsScenarios: typeof activeSource.runScenario === 'function',
+    replayProgress,
+    transportStats,
+    faultStats,
+    quarantined,
+    batchingState,
+    pinnedSymbols,
+    supportsTransport: typeof activeSource.setTransport === 'function',
+    supportsDelivery: typeof activeSource.setDelivery === 'function',
+    supportsCredits: typeof activeSource.setCreditWindow === 'function',
+    supportsFaults: typeof activeSource.setFaults === 'function',
+    isRecording,
+    recordedBatches,
     start,
     stop,
+    reseed,
+    stall,
+    runScenario,
+    toggleRecording,
+    setVisibleSymbols,
+    togglePin,
     updateConfig,
-    resetStats
+    resetStats,
+    clearQuarantine
   };
 }
@@ -0,0 +1,23 @@
+import { useRef } from 'react';
+
+/**
+ * Render counters for the render-count overlay
+ *
+ * Plain module state bumped during render, so counting is not a
+ * React-visible side effect; in StrictMode development builds every
+ * render is counted twice.
+ */
+
+export type RenderSite = 'table' | 'list' | 'row';
+
+export const renderCounts: Record<RenderSite, number> = { table: 0, list: 0, row: 0 };
+
+/**
+ * Count a render of this component; returns its own render count
+ */
+export function useRenderCount(site: RenderSite) {
+  const own = useRef(0);
+  own.current++;
+  renderCounts[site]++;
+  return own.current;
+}
@@ -0,0 +1,64 @@
+import { createContext, useContext, type Context } from 'react';
+import type { StreamStats } from '@/types/ticker';
+import type { useDataStream } from './useDataStream';
+
+/**
+ * Stream context hooks
+ *
+ * StreamProvider (components/StreamProvider.tsx) runs one pipeline and
+ * publishes it in slices, so any component in the tree can subscribe to
+ * just the part it shows:
+ *
+ * - useStream():         everything useDataStream returns but the stats
+ *                        (re-renders on connection, config and other
+ *                        stream state changes, never per flush)
+ * - useStreamStats():    pipeline statistics, once a second and per flush
+ * - useStreamControls(): start/stop, config and other actions; the
+ *                        callbacks are stable, so it only re-renders if
+ *                        the provider is remounted
+ * - useTicker(symbol), useTickerSymbols(), useTickers(selector),
+ *   useBreadth(): ticker data, see hooks/useTicker.ts
+ */
+
+export type StreamValue = Omit<ReturnType<typeof useDataStream>, 'stats'>;
+
+export type StreamControls = Pick<
+  StreamValue,
+  | 'start'
+  | 'stop'
+  | 'reseed'
+  | 'stall'
+  | 'runScenario'
+  | 'toggleRecording'
+  | 'setVisibleSymbols'
+  | 'togglePin'
+  | 'updateConfig'
+  | 'resetStats'
+  | 'clearQuarantine'
+>;
+
+export const StreamContext = createContext<StreamValue | null>(null);
+export const StreamStatsContext = createContext<StreamStats | null>(null);
+export const StreamControlsContext = createContext<StreamControls | null>(null);
+
+function useRequired<T>(context: Context<T | null>, hook: string): T {
+  const value = useContext(context);
+  if (value === null) {
+    throw new Error(`${hook} must be used inside a StreamProvider`);
+  }
+  return value;
+}
+
+export function useStream() {
+  return useRequired(StreamContext, 'useStream');
+}
+
+export function useStreamStats() {
+  return useRequired(StreamStatsContext, 'useStreamStats');
+}
+
+export function useStreamControls() {
+  return useRequired(StreamControlsContext, 'useStreamControls');
+}
+
+export { useBreadth, useTicker, useTickers, useTickerSymbols } from './useTicker';
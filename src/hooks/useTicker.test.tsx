@@ -0,0 +1,105 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { act, renderHook } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import type { TickerState } from '@/types/ticker';
+import { TickerStore } from '@/lib/tickerStore';
+import { TickerStoreContext, useTickers } from './useTicker';
+
+function row(symbol: string, price: number): TickerState {
+  return { symbol, price, change: 0, volume: 0, timestamp: 0, id: `${symbol}-0`, lastUpdated: 0 };
+}
+
+function setup<T>(selector: (rows: readonly TickerState[]) => T, isEqual?: (a: T, b: T) => boolean) {
+  const store = new TickerStore();
+  store.reset([row('AAPL', 100), row('MSFT', 200)]);
+  const select = vi.fn(selector);
+  let renders = 0;
+
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <TickerStoreContext.Provider value={store}>{children}</TickerStoreContext.Provider>
+  );
+  const hook = renderHook(() => {
+    renders++;
+    return useTickers(select, isEqual);
+  }, { wrapper });
+
+  const commit = (...rows: TickerState[]) => act(() => {
+    rows.forEach(next => store.set(next));
+    store.commit();
+  });
+
+  return { hook, select, commit, renders: () => renders };
+}
+
+const totalPrice = (rows: readonly TickerState[]) => rows.reduce((sum, next) => sum + next.price, 0);
+const symbolsAbove150 = (rows: readonly TickerState[]) =>
+  rows.filter(next => next.price > 150).map(next => next.symbol);
+const sameSymbols = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((symbol, i) => symbol === b[i]);
+
+describe('useTickers', () => {
+  it('runs the selector once per commit, not once per render', () => {
+    const { hook, select, commit } = setup(totalPrice);
+    expect(hook.result.current).toBe(300);
+    const calls = select.mock.calls.length;
+
+    hook.rerender();
+    expect(select).toHaveBeenCalledTimes(calls);
+
+    commit(row('AAPL', 110));
+    expect(hook.result.current).toBe(310);
+    expect(select).toHaveBeenCalledTimes(calls + 1);
+  });
+
+  it('skips the re-render when the selected value is unchanged', () => {
+    const { hook, commit, renders } = setup(totalPrice);
+    const before = renders();
+
+    // Different rows, same total
+    commit(row('AAPL', 150), row('MSFT', 150));
+    expect(hook.result.current).toBe(300);
+    expect(renders()).toBe(before);
+  });
+
+  it('keeps the previous value while isEqual says it is the same', () => {
+    const { hook, commit, renders } = setup(symbolsAbove150, sameSymbols);
+    const first = hook.result.current;
+    expect(first).toEqual(['MSFT']);
+    const before = renders();
+
+    commit(row('AAPL', 120));
+    expect(hook.result.current).toBe(first);
+    expect(renders()).toBe(before);
+
+    commit(row('AAPL', 160));
+    expect(hook.result.current).toEqual(['AAPL', 'MSFT']);
+    expect(renders()).toBe(before + 1);
+  });
+
+  it('re-renders for every commit without isEqual when the selector builds new arrays', () => {
+    const { hook, commit, renders } = setup(symbolsAbove150);
+    const first = hook.result.current;
+    const before = renders();
+
+    commit(row('AAPL', 120));
+    expect(hook.result.current).not.toBe(first);
+    expect(renders()).toBe(before + 1);
+  });
+
+  it('recomputes when the selector changes', () => {
+    const store = new TickerStore();
+    store.reset([row('AAPL', 100), row('MSFT', 200)]);
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <TickerStoreContext.Provider value={store}>{children}</TickerStoreContext.Provider>
+    );
+    const hook = renderHook(
+      ({ selector }: { selector: (rows: readonly TickerState[]) => number }) => useTickers(selector),
+      { wrapper, initialProps: { selector: totalPrice } }
+    );
+    expect(hook.result.current).toBe(300);
+
+    hook.rerender({ selector: rows => rows.length });
+    expect(hook.result.current).toBe(2);
+  });
+});
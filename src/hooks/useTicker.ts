@@ -0,0 +1,85 @@
+import { createContext, useCallback, useContext, useRef, useSyncExternalStore } from 'react';
+import type { TickerState } from '@/types/ticker';
+import type { TickerStore } from '@/lib/tickerStore';
+
+/**
+ * Ticker store hooks
+ *
+ * Components subscribe to exactly what they render: a row to its own
+ * symbol, the list to the symbol list, a widget to a selector over all
+ * rows. A flush then re-renders only the rows whose symbol changed, plus
+ * widgets whose selected value changed.
+ *
+ * The store is provided by StreamProvider (or directly through
+ * TickerStoreContext).
+ */
+
+export const TickerStoreContext = createContext<TickerStore | null>(null);
+
+export function useTickerStore(): TickerStore {
+  const store = useContext(TickerStoreContext);
+  if (!store) {
+    throw new Error('useTickerStore must be used inside a StreamProvider');
+  }
+  return store;
+}
+
+/**
+ * Latest state of one symbol; re-renders only when that symbol changes
+ */
+export function useTicker(symbol: string) {
+  const store = useTickerStore();
+  const subscribe = useCallback(
+    (listener: () => void) => store.subscribe(symbol, listener),
+    [store, symbol]
+  );
+  const getSnapshot = useCallback(() => store.getTicker(symbol), [store, symbol]);
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
+
+/**
+ * All symbols in display order; re-renders only when the list changes
+ */
+export function useTickerSymbols() {
+  const store = useTickerStore();
+  return useSyncExternalStore(store.subscribeSymbols, store.getSymbols);
+}
+
+/**
+ * Advancing and declining symbols; the store keeps the counts as rows
+ * change, so this re-renders only when a count does
+ */
+export function useBreadth() {
+  const store = useTickerStore();
+  return useSyncExternalStore(store.subscribeAll, store.getBreadth);
+}
+
+/**
+ * A value derived from all rows, e.g. the top movers or an average
+ * The selector runs once per store commit (keep it cheap at 50k rows);
+ * the component re-renders only when the result changes under `isEqual`,
+ * so selectors that build new arrays or objects should pass one.
+ */
+export function useTickers<T>(
+  selector: (rows: readonly TickerState[]) => T,
+  isEqual: (a: T, b: T) => boolean = Object.is
+): T {
+  const store = useTickerStore();
+  const cacheRef = useRef<{ version: number; selector: typeof selector; value: T } | null>(null);
+
+  const getSnapshot = () => {
+    const version = store.getVersion();
+    const cached = cacheRef.current;
+    if (cached && cached.version === version && cached.selector === selector) {
+      return cached.value;
+    }
+
+    const next = selector(store.getRows());
+    // Keep the previous value when equal, so React sees no change
+    const value = cached && isEqual(cached.value, next) ? cached.value : next;
+    cacheRef.current = { version, selector, value };
+    return value;
+  };
+
+  return useSyncExternalStore(store.subscribeAll, getSnapshot);
+}
@@ -0,0 +1,87 @@
+/**
+ * Adaptive Batching
+ *
+ * Tunes the flush interval and the max rows applied per flush from
+ * measured flush cost, so each flush fits a frame budget (e.g. 8ms of a
+ * 16ms frame). A sample is the time from patching rows through React's
+ * commit, plus the browser's render work until the next paint.
+ *
+ * - Batch size: rows that fit the budget at the smoothed cost per row;
+ *   anything beyond that stays buffered for the next flush
+ * - Interval: backs off multiplicatively while flushes run over budget
+ *   (fewer, more coalesced flushes) and creeps back down additively once
+ *   they use less than half of it
+ *
+ * Pure state machine: samples come in through record(), no clocks, so a
+ * sequence of samples always produces the same intervals.
+ */
+
+export const MIN_INTERVAL_MS = 16;
+export const MAX_INTERVAL_MS = 250;
+const MIN_BATCH_SIZE = 50;
+const INTERVAL_BACKOFF = 1.25;
+const INTERVAL_STEP_MS = 2;
+const SMOOTHING = 0.2; // EWMA weight of the newest sample
+
+export interface FlushSample {
+  costMs: number;
+  rows: number;
+}
+
+export interface BatchingState {
+  intervalMs: number;
+  batchSize: number;
+  costMs: number; // Smoothed flush cost
+  budgetMs: number;
+}
+
+export class AdaptiveBatcher {
+  private interval: number;
+  private costMs = 0;
+  private costPerRowMs = 0;
+  private samples = 0;
+
+  constructor(
+    private budgetMs: number,
+    initialIntervalMs: number
+  ) {
+    this.interval = Math.min(MAX_INTERVAL_MS, Math.max(MIN_INTERVAL_MS, initialIntervalMs));
+  }
+
+  get intervalMs() {
+    return Math.round(this.interval);
+  }
+
+  get batchSize() {
+    if (this.costPerRowMs <= 0) return Infinity;
+    return Math.max(MIN_BATCH_SIZE, Math.floor(this.budgetMs / this.costPerRowMs));
+  }
+
+  setBudget(budgetMs: number) {
+    this.budgetMs = budgetMs;
+  }
+
+  record({ costMs, rows }: FlushSample) {
+    if (rows <= 0) return;
+
+    const weight = this.samples === 0 ? 1 : SMOOTHING;
+    this.costMs += (costMs - this.costMs) * weight;
+    this.costPerRowMs += (costMs / rows - this.costPerRowMs) * weight;
+    this.samples++;
+
+    if (this.costMs > this.budgetMs) {
+      this.interval = Math.min(MAX_INTERVAL_MS, this.interval * INTERVAL_BACKOFF);
+    } else if (this.costMs < this.budgetMs * 0.5) {
+      this.interval = Math.max(MIN_INTERVAL_MS, this.interval - INTERVAL_STEP_MS);
+    }
+  }
+
+  getState(): BatchingState {
+    return {
+      intervalMs: this.intervalMs,
+      batchSize: this.batchSize,
+      costMs: this.costMs,
+      budgetMs: this.budgetMs
+    };
+  }
+}
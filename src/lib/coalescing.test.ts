@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import type { TickerUpdate } from '@/types/ticker';
+import { coalesceUpdates, type BufferedUpdate } from './coalescing';
+
+function tick(seq: number, price: number, volume: number, size?: number): TickerUpdate {
+  return { symbol: 'AAPL', price, change: 0, volume, timestamp: 0, id: `AAPL-${seq}`, seq, size };
+}
+
+function merge(strategy: Parameters<typeof coalesceUpdates>[0], ticks: TickerUpdate[]) {
+  return ticks
+    .slice(1)
+    .reduce<BufferedUpdate>((pending, next) => coalesceUpdates(strategy, pending, next), ticks[0]);
+}
+
+describe('coalesceUpdates', () => {
+  it('keeps the newest fields and counts the ticks', () => {
+    const merged = merge('latest', [tick(1, 100, 1000), tick(2, 101, 1100), tick(3, 99, 1300)]);
+    expect(merged).toMatchObject({ price: 99, volume: 1300, seq: 3, coalesced: { ticks: 3 } });
+  });
+
+  it('tracks open, high and low', () => {
+    const merged = merge('ohlc', [tick(1, 100, 0), tick(2, 103, 0), tick(3, 98, 0), tick(4, 101, 0)]);
+    expect(merged.coalesced).toEqual({ ticks: 4, open: 100, high: 103, low: 98 });
+  });
+
+  it('adds up the traded sizes, not the session volume', () => {
+    const merged = merge('sum-volume', [
+      tick(1, 100, 1000, 100),
+      tick(2, 101, 1300, 300),
+      tick(3, 102, 1800, 500)
+    ]);
+    expect(merged.volume).toBe(1800);
+    expect(merged.coalesced).toEqual({ ticks: 3, volume: 900 });
+  });
+
+  it('counts ticks without a size as no trade', () => {
+    const merged = merge('sum-volume', [tick(1, 100, 1000), tick(2, 101, 1000, 200)]);
+    expect(merged.coalesced).toEqual({ ticks: 2, volume: 200 });
+  });
+});
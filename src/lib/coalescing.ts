@@ -0,0 +1,56 @@
+import type { CoalescedMeta, CoalescingStrategy, TickerUpdate } from '@/types/ticker';
+
+/**
+ * Coalescing Strategies
+ *
+ * How a pending update absorbs a newer one for the same symbol. The newer
+ * update's fields always win; the strategy decides what else survives in
+ * the merge metadata (CoalescedMeta):
+ *
+ * - latest:     just the number of ticks merged
+ * - first-last: plus the first price of the window
+ * - ohlc:       plus the first, highest and lowest price of the window
+ * - sum-volume: plus the shares traded across the window, the merged
+ *               ticks' sizes added up (volume itself is a running
+ *               session total, so adding it up would count it twice)
+ *
+ * Metadata starts on the first merge, so an update that was never
+ * coalesced carries none.
+ */
+
+export type BufferedUpdate = TickerUpdate & { coalesced?: CoalescedMeta };
+
+export function coalesceUpdates(
+  strategy: CoalescingStrategy,
+  pending: BufferedUpdate,
+  next: TickerUpdate
+): BufferedUpdate {
+  const merged = pending.coalesced;
+  const ticks = (merged?.ticks ?? 1) + 1;
+  let coalesced: CoalescedMeta;
+
+  switch (strategy) {
+    case 'latest':
+      coalesced = { ticks };
+      break;
+
+    case 'first-last':
+      coalesced = { ticks, open: merged?.open ?? pending.price };
+      break;
+
+    case 'ohlc':
+      coalesced = {
+        ticks,
+        open: merged?.open ?? pending.price,
+        high: Math.max(merged?.high ?? pending.price, next.price),
+        low: Math.min(merged?.low ?? pending.price, next.price)
+      };
+      break;
+
+    case 'sum-volume':
+      coalesced = { ticks, volume: (merged?.volume ?? pending.size ?? 0) + (next.size ?? 0) };
+      break;
+  }
+
+  return { ...next, coalesced };
+}
@@ -0,0 +1,27 @@
+import type { FaultConfig } from '@/types/ticker';
+
+/**
+ * Fault Injection
+ *
+ * Settings for making the simulated feed misbehave on purpose (see
+ * FAULT INJECTION in workers/dataWorker.ts), to check that the pipeline
+ * and the UI degrade gracefully before they meet a real feed.
+ */
+
+export const NO_FAULTS: FaultConfig = {
+  dropPercent: 0,
+  duplicatePercent: 0,
+  reorderWindow: 0,
+  jitterMs: 0,
+  malformedPercent: 0
+};
+
+export function hasFaults(faults: FaultConfig) {
+  return (
+    faults.dropPercent > 0 ||
+    faults.duplicatePercent > 0 ||
+    faults.reorderWindow > 1 ||
+    faults.jitterMs > 0 ||
+    faults.malformedPercent > 0
+  );
+}
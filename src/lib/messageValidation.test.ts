@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { MessageValidator } from './messageValidation';
+
+const update = { symbol: 'AAPL', price: 100, change: 0, volume: 1000, timestamp: 0, id: 'AAPL-1', seq: 1 };
+
+function batch(data: unknown[]) {
+  return { type: 'updates', data, timestamp: 0 };
+}
+
+describe('MessageValidator', () => {
+  it('checks every update of a sampled batch', () => {
+    const validator = new MessageValidator(1);
+    expect(validator.check(batch([update]), 0)).toBe('valid');
+    expect(validator.check(batch([{ ...update, price: Number.NaN }]), 0)).toBe('invalid');
+    expect(validator.entries[0].issues).toEqual(['data.0.price: Expected number, received nan']);
+  });
+
+  it('only skips the numeric checks of an unsampled batch', () => {
+    const validator = new MessageValidator(0);
+    expect(validator.check(batch([{ ...update, price: Number.NaN }]), 0)).toBe('unchecked');
+    expect(validator.check(batch([{ ...update, symbol: 42 }]), 0)).toBe('invalid');
+    expect(validator.check(batch([{ ...update, id: undefined }]), 0)).toBe('invalid');
+    expect(validator.check(batch([{ ...update, symbol: '' }]), 0)).toBe('invalid');
+    expect(validator.entries).toHaveLength(3);
+  });
+
+  it('samples batches evenly', () => {
+    const validator = new MessageValidator(0.5);
+    const results = [1, 2, 3, 4].map(() => validator.check(batch([update]), 0));
+    expect(results).toEqual(['unchecked', 'valid', 'unchecked', 'valid']);
+  });
+
+  it('always checks other messages in full', () => {
+    const validator = new MessageValidator(0);
+    expect(validator.check({ type: 'status', running: 'yes' }, 0)).toBe('invalid');
+    expect(validator.check({ type: 'nope' }, 0)).toBe('invalid');
+    expect(validator.entries[0].issues).toEqual(['Unknown message type']);
+  });
+});
@@ -0,0 +1,116 @@
+import type { ZodIssue } from 'zod';
+import { updatesEnvelopeSchema, workerMessageSchemas } from './protocolSchemas';
+
+/**
+ * Message Validation
+ *
+ * Checks source messages against the protocol schemas before the
+ * pipeline acts on them. A message that fails is quarantined: it is kept
+ * out of the pipeline and logged with what was wrong, so it can be
+ * inspected instead of corrupting state.
+ *
+ * SAMPLING
+ * 'updates' batches are the hot path, so only `sampleRate` of them (0-1)
+ * get the full per-update check; the others only have their envelope
+ * checked (an array of objects, each with a string symbol and id), so
+ * sampling only skips the numeric checks. Every other message is always
+ * checked in full. Sampling is an even accumulator, not a coin flip, so the same
+ * sequence of messages is always checked the same way.
+ */
+
+// Quarantined messages kept for inspection, newest first
+const MAX_QUARANTINED = 50;
+const MAX_ISSUES = 5;
+const MAX_PAYLOAD_CHARS = 600;
+
+export interface QuarantinedMessage {
+  receivedAt: number; // Wall-clock ms
+  type: string;
+  issues: string[];
+  payload: string; // JSON preview, truncated
+}
+
+export type ValidationResult = 'valid' | 'unchecked' | 'invalid';
+
+function describeIssue(issue: ZodIssue) {
+  return issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message;
+}
+
+// JSON drops NaN and Infinity (to null), which hides the very problem
+function previewPayload(message: unknown) {
+  let json: string;
+  try {
+    json = JSON.stringify(message, (_key, value) =>
+      typeof value === 'number' && !Number.isFinite(value) ? String(value) : value
+    ) ?? String(message);
+  } catch {
+    json = String(message);
+  }
+  return json.length > MAX_PAYLOAD_CHARS ? `${json.slice(0, MAX_PAYLOAD_CHARS)}…` : json;
+}
+
+export class MessageValidator {
+  private credit = 0;
+  private quarantined: readonly QuarantinedMessage[] = [];
+
+  constructor(private sampleRate: number) {}
+
+  setSampleRate(sampleRate: number) {
+    this.sampleRate = sampleRate;
+  }
+
+  /**
+   * Quarantined messages, newest first
+   * A new array whenever one is added, so it can be compared by reference
+   */
+  get entries(): readonly QuarantinedMessage[] {
+    return this.quarantined;
+  }
+
+  check(message: unknown, receivedAt: number): ValidationResult {
+    const type = typeof message === 'object' && message !== null
+      ? (message as { type?: unknown }).type
+      : undefined;
+    const schema = typeof type === 'string' && Object.prototype.hasOwnProperty.call(workerMessageSchemas, type)
+      ? workerMessageSchemas[type as keyof typeof workerMessageSchemas]
+      : null;
+
+    if (!schema) {
+      this.quarantine(message, String(type), ['Unknown message type'], receivedAt);
+      return 'invalid';
+    }
+
+    const sampled = type !== 'updates' || this.sample();
+    const result = (sampled ? schema : updatesEnvelopeSchema).safeParse(message);
+    if (!result.success) {
+      this.quarantine(message, type as string, result.error.issues.map(describeIssue), receivedAt);
+      return 'invalid';
+    }
+    return sampled ? 'valid' : 'unchecked';
+  }
+
+  clear() {
+    this.quarantined = [];
+  }
+
+  private sample() {
+    this.credit += this.sampleRate;
+    if (this.credit >= 1) {
+      this.credit -= 1;
+      return true;
+    }
+    return false;
+  }
+
+  private quarantine(message: unknown, type: string, issues: string[], receivedAt: number) {
+    const entry: QuarantinedMessage = {
+      receivedAt,
+      type,
+      issues: issues.length > MAX_ISSUES
+        ? [...issues.slice(0, MAX_ISSUES), `…and ${issues.length - MAX_ISSUES} more`]
+        : issues,
+      payload: previewPayload(message)
+    };
+    this.quarantined = [entry, ...this.quarantined].slice(0, MAX_QUARANTINED);
+  }
+}
@@ -0,0 +1,85 @@
+import type { TickerUpdate } from '@/types/ticker';
+
+/**
+ * Packed Binary Updates
+ *
+ * Struct-of-arrays layout used by the worker's binary transport, for
+ * `count` updates in one ArrayBuffer:
+ *
+ *   Float64 price[count] | Float64 change[count] | Float64 volume[count]
+ *   Float64 timestamp[count] | Uint32 symbolIndex[count] | Uint32 sequence[count]
+ *   Uint32 seq[count] | Uint32 size[count]
+ *
+ * Symbols are indices into the worker's symbol table; ids are rebuilt as
+ * `${symbol}-${sequence}`. `seq` is the per-symbol sequence number
+ * and `size` the shares traded in the tick.
+ * The worker packs with encodePackedUpdates and the main thread unpacks
+ * with decodePackedUpdates, so both sides share the one layout.
+ */
+
+const BYTES_PER_UPDATE = 4 * 8 + 4 * 4;
+
+function packedColumns(buffer: ArrayBuffer, count: number) {
+  return {
+    price: new Float64Array(buffer, 0, count),
+    change: new Float64Array(buffer, count * 8, count),
+    volume: new Float64Array(buffer, count * 16, count),
+    timestamp: new Float64Array(buffer, count * 24, count),
+    symbolIndex: new Uint32Array(buffer, count * 32, count),
+    sequence: new Uint32Array(buffer, count * 36, count),
+    seq: new Uint32Array(buffer, count * 40, count),
+    size: new Uint32Array(buffer, count * 44, count)
+  };
+}
+
+/**
+ * Pack updates into a transferable buffer
+ * Ids are `${symbol}-${sequence}`, so only the sequence number is sent
+ * @param symbolIndex position of each symbol in the symbol table
+ */
+export function encodePackedUpdates(
+  updates: TickerUpdate[],
+  symbolIndex: Map<string, number>
+): ArrayBuffer {
+  const count = updates.length;
+  const buffer = new ArrayBuffer(count * BYTES_PER_UPDATE);
+  const columns = packedColumns(buffer, count);
+
+  updates.forEach((update, i) => {
+    columns.price[i] = update.price;
+    columns.change[i] = update.change;
+    columns.volume[i] = update.volume;
+    columns.timestamp[i] = update.timestamp;
+    columns.symbolIndex[i] = symbolIndex.get(update.symbol);
+    columns.sequence[i] = Number(update.id.slice(update.symbol.length + 1));
+    columns.seq[i] = update.seq;
+    columns.size[i] = update.size;
+  });
+
+  return buffer;
+}
+
+export function decodePackedUpdates(
+  buffer: ArrayBuffer,
+  count: number,
+  symbolTable: string[]
+): TickerUpdate[] {
+  const { price, change, volume, timestamp, symbolIndex, sequence, seq, size } =
+    packedColumns(buffer, count);
+
+  const updates: TickerUpdate[] = new Array(count);
+  for (let i = 0; i < count; i++) {
+    const symbol = symbolTable[symbolIndex[i]];
+    updates[i] = {
+      symbol,
+      price: price[i],
+      change: change[i],
+      volume: volume[i],
+      timestamp: timestamp[i],
+      id: `${symbol}-${sequence[i]}`,
+      seq: seq[i],
+      size: size[i]
+    };
+  }
+  return updates;
+}
@@ -0,0 +1,25 @@
+/**
+ * Worker Protocol Version
+ *
+ * Version of the WorkerMessage / WorkerCommand protocol in
+ * types/ticker.ts, which the simulator worker and the mock servers speak.
+ * A source announces the version it speaks in its 'ready' message, and
+ * the pipeline refuses to use a source on any other one, rather than
+ * misreading its messages. Bump it with any change to the protocol that
+ * an older peer would get wrong.
+ */
+
+export const PROTOCOL_VERSION = 2;
+
+/**
+ * Error for a 'ready' that announced another version (or none, from a
+ * peer older than the handshake); null when the versions match
+ */
+export function checkProtocolVersion(version: number | undefined): Error | null {
+  if (version === PROTOCOL_VERSION) return null;
+  return new Error(
+    version === undefined
+      ? `Source did not announce a protocol version (expected v${PROTOCOL_VERSION})`
+      : `Source speaks protocol v${version}, expected v${PROTOCOL_VERSION}`
+  );
+}
@@ -0,0 +1,101 @@
+import { z } from 'zod';
+import type { WorkerMessage } from '@/types/ticker';
+
+/**
+ * Worker Protocol Schemas
+ *
+ * Runtime shape of every WorkerMessage variant (types/ticker.ts), for
+ * checking messages where they enter the pipeline (see
+ * messageValidation.ts). They mirror the types by hand; the record of
+ * schemas is keyed by message type, so the compiler at least insists on
+ * one schema per variant.
+ *
+ * Numbers must be finite: NaN and Infinity don't survive JSON (they
+ * arrive as null from the servers) and break every sum they touch.
+ */
+
+const finite = z.number().finite();
+const count = z.number().int().nonnegative();
+
+export const tickerUpdateSchema = z.object({
+  symbol: z.string().min(1),
+  price: finite,
+  change: finite,
+  volume: finite.nonnegative(),
+  timestamp: finite,
+  id: z.string().min(1),
+  seq: count.optional(),
+  size: count.optional()
+});
+
+const transportModeSchema = z.enum(['clone', 'binary', 'shared']);
+
+const scenarioProgressSchema = z.object({
+  name: z.string(),
+  loop: z.boolean(),
+  phaseIndex: count,
+  phaseCount: count,
+  phaseType: z.enum(['constant', 'ramp', 'spike', 'sine', 'poisson', 'silence']),
+  elapsedMs: finite,
+  totalMs: finite,
+  rate: finite
+});
+
+const sendStatsSchema = z.object({
+  messages: count,
+  updates: count,
+  sendMs: finite
+});
+
+const faultStatsSchema = z.object({
+  dropped: count,
+  duplicated: count,
+  reordered: count,
+  delayed: count,
+  malformed: count,
+  stalled: count
+});
+
+// One schema per variant; keyed by type so a new variant can't go without one
+export const workerMessageSchemas: Record<WorkerMessage['type'], z.ZodTypeAny> = {
+  // The version is checked by the handshake (lib/protocol.ts), which
+  // gives a peer from before versioning a clearer error than quarantine
+  ready: z.object({
+    type: z.literal('ready'),
+    protocolVersion: count.optional(),
+    resumed: z.boolean().optional()
+  }),
+  status: z.object({ type: z.literal('status'), running: z.boolean() }),
+  updates: z.object({ type: z.literal('updates'), data: z.array(tickerUpdateSchema), timestamp: finite }),
+  symbols: z.object({ type: z.literal('symbols'), data: z.array(tickerUpdateSchema) }),
+  snapshot: z.object({ type: z.literal('snapshot'), data: z.array(tickerUpdateSchema) }),
+  // Echo of the simulator's own settings; only ever logged
+  configUpdated: z.object({ type: z.literal('configUpdated'), config: z.object({}).passthrough() }),
+  scenario: z.object({ type: z.literal('scenario'), progress: scenarioProgressSchema.nullable() }),
+  symbolTable: z.object({ type: z.literal('symbolTable'), symbols: z.array(z.string()), version: count }),
+  packedUpdates: z.object({
+    type: z.literal('packedUpdates'),
+    buffer: z.instanceof(ArrayBuffer),
+    count,
+    timestamp: finite
+  }),
+  transportUpdated: z.object({ type: z.literal('transportUpdated'), mode: transportModeSchema }),
+  workerCoalesced: z.object({ type: z.literal('workerCoalesced'), count }),
+  creditsUpdated: z.object({ type: z.literal('creditsUpdated'), epoch: count }),
+  faultStats: z.object({ type: z.literal('faultStats'), stats: faultStatsSchema }),
+  transportStats: z.object({
+    type: z.literal('transportStats'),
+    stats: z.object({ clone: sendStatsSchema, binary: sendStatsSchema, shared: sendStatsSchema })
+  })
+};
+
+/**
+ * Cheap check of an 'updates' message: an array of objects with the
+ * string keys the pipeline indexes by (symbol and id), numbers
+ * unchecked. Used for batches the sampler skips.
+ */
+export const updatesEnvelopeSchema = z.object({
+  type: z.literal('updates'),
+  data: z.array(tickerUpdateSchema.pick({ symbol: true, id: true }).passthrough()),
+  timestamp: finite
+});
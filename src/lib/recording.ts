@@ -0,0 +1,132 @@
+import type { TickerUpdate } from '@/types/ticker';
+
+/**
+ * Stream Recordings (NDJSON)
+ *
+ * A recording is one JSON object per line:
+ *   {"type":"header","format":"stream-recording","version":1,"recordedAt":"..."}
+ *   {"type":"symbols","t":0,"data":[...TickerUpdate]}        snapshot at start
+ *   {"type":"updates","t":12.5,"data":[...TickerUpdate]}     one per batch
+ *
+ * `t` is the batch's arrival time in ms since recording started, so a
+ * replay reproduces the original pacing as well as the content.
+ */
+
+export const RECORDING_FORMAT = 'stream-recording';
+export const RECORDING_VERSION = 1;
+
+export interface RecordedBatch {
+  t: number;
+  data: TickerUpdate[];
+}
+
+export interface Recording {
+  recordedAt: string;
+  symbols: TickerUpdate[];
+  batches: RecordedBatch[];
+  durationMs: number;
+}
+
+/**
+ * Captures update batches in memory until stopped
+ */
+export class StreamRecorder {
+  private startedAt = 0;
+  private recordedAt = '';
+  private symbols: TickerUpdate[] = [];
+  private batches: RecordedBatch[] = [];
+
+  start(snapshot: TickerUpdate[], now: number) {
+    this.startedAt = now;
+    this.recordedAt = new Date().toISOString();
+    this.symbols = snapshot;
+    this.batches = [];
+  }
+
+  record(updates: TickerUpdate[], now: number) {
+    this.batches.push({ t: now - this.startedAt, data: updates });
+  }
+
+  get batchCount() {
+    return this.batches.length;
+  }
+
+  toNdjson(): string {
+    const lines = [
+      JSON.stringify({
+        type: 'header',
+        format: RECORDING_FORMAT,
+        version: RECORDING_VERSION,
+        recordedAt: this.recordedAt
+      }),
+      JSON.stringify({ type: 'symbols', t: 0, data: this.symbols }),
+      ...this.batches.map(batch => JSON.stringify({ type: 'updates', t: batch.t, data: batch.data }))
+    ];
+    return lines.join('\n') + '\n';
+  }
+}
+
+/**
+ * Save NDJSON text as a file via a temporary object URL
+ * The download starts asynchronously, so the URL is revoked a moment
+ * later; revoking it straight after click() can cancel the download.
+ */
+export function downloadNdjson(ndjson: string, filename: string) {
+  const url = URL.createObjectURL(new Blob([ndjson], { type: 'application/x-ndjson' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Parse a recording, throwing an Error that names the offending line
+ */
+export function parseRecording(ndjson: string): Recording {
+  const lines = ndjson.split('\n').filter(line => line.trim().length > 0);
+  let recordedAt = '';
+  let symbols: TickerUpdate[] = [];
+  const batches: RecordedBatch[] = [];
+
+  lines.forEach((line, index) => {
+    let entry: { type?: string; t?: number; data?: TickerUpdate[]; [key: string]: unknown };
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      throw new Error(`Line ${index + 1}: not valid JSON`);
+    }
+
+    switch (entry.type) {
+      case 'header':
+        if (entry.format !== RECORDING_FORMAT || entry.version !== RECORDING_VERSION) {
+          throw new Error(`Line ${index + 1}: unsupported recording format`);
+        }
+        recordedAt = String(entry.recordedAt ?? '');
+        break;
+      case 'symbols':
+        symbols = entry.data ?? [];
+        break;
+      case 'updates':
+        if (typeof entry.t !== 'number' || !Array.isArray(entry.data)) {
+          throw new Error(`Line ${index + 1}: updates need a numeric "t" and a "data" array`);
+        }
+        batches.push({ t: entry.t, data: entry.data });
+        break;
+      default:
+        throw new Error(`Line ${index + 1}: unknown entry type "${entry.type}"`);
+    }
+  });
+
+  if (!recordedAt) {
+    throw new Error('Missing recording header');
+  }
+
+  batches.sort((a, b) => a.t - b.t);
+  return {
+    recordedAt,
+    symbols,
+    batches,
+    durationMs: batches.length > 0 ? batches[batches.length - 1].t : 0
+  };
+}
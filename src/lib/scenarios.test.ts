@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { parseScenario, PRESET_SCENARIOS } from './scenarios';
+
+function withPhase(phase: Record<string, unknown>) {
+  return { name: 'test', phases: [phase] };
+}
+
+describe('parseScenario', () => {
+  it('accepts every preset', () => {
+    PRESET_SCENARIOS.forEach(scenario => {
+      expect(parseScenario(JSON.parse(JSON.stringify(scenario)))).toEqual({
+        ...scenario,
+        loop: scenario.loop === true
+      });
+    });
+  });
+
+  it('rejects unknown phase types, including inherited property names', () => {
+    ['burst', 'toString', 'constructor', '__proto__', 'hasOwnProperty'].forEach(type => {
+      expect(() => parseScenario(withPhase({ type, durationMs: 1000 }))).toThrow(
+        `Phase 1: unknown type "${type}"`
+      );
+    });
+    expect(() => parseScenario(withPhase({ durationMs: 1000 }))).toThrow('unknown type');
+  });
+
+  it('names the first missing field', () => {
+    expect(() => parseScenario(withPhase({ type: 'ramp', durationMs: 1000, from: 10 }))).toThrow(
+      'Phase 1 (ramp): "to" must be a non-negative number'
+    );
+  });
+});
@@ -0,0 +1,110 @@
+import type { Scenario, ScenarioPhase } from '@/types/ticker';
+
+/**
+ * Traffic Scenarios
+ *
+ * Built-in timelines for the scenario picker, plus validation for custom
+ * scenario JSON files. The format is executed by workers/dataWorker.ts.
+ */
+
+export const PRESET_SCENARIOS: Scenario[] = [
+  {
+    name: 'Market open',
+    phases: [
+      { type: 'silence', durationMs: 2000 },
+      { type: 'spike', durationMs: 8000, base: 800, peak: 4000 },
+      { type: 'ramp', durationMs: 10000, from: 800, to: 300 },
+      { type: 'poisson', durationMs: 20000, rate: 300 }
+    ]
+  },
+  {
+    name: 'News spikes',
+    loop: true,
+    phases: [
+      { type: 'constant', durationMs: 5000, rate: 100 },
+      { type: 'spike', durationMs: 6000, base: 100, peak: 5000 },
+      { type: 'constant', durationMs: 4000, rate: 100 }
+    ]
+  },
+  {
+    name: 'Sine wave',
+    loop: true,
+    phases: [
+      { type: 'sine', durationMs: 20000, base: 600, amplitude: 550, periodMs: 10000 }
+    ]
+  },
+  {
+    name: 'Poisson arrivals',
+    loop: true,
+    phases: [
+      { type: 'poisson', durationMs: 30000, rate: 400 }
+    ]
+  },
+  {
+    name: 'Flaky feed',
+    loop: true,
+    phases: [
+      { type: 'poisson', durationMs: 5000, rate: 200 },
+      { type: 'silence', durationMs: 3000 },
+      { type: 'spike', durationMs: 4000, base: 200, peak: 3000 },
+      { type: 'silence', durationMs: 2000 },
+      { type: 'ramp', durationMs: 6000, from: 50, to: 1500 }
+    ]
+  }
+];
+
+// Numeric fields each phase type requires (besides durationMs)
+const PHASE_FIELDS: Record<ScenarioPhase['type'], string[]> = {
+  constant: ['rate'],
+  ramp: ['from', 'to'],
+  spike: ['base', 'peak'],
+  sine: ['base', 'amplitude', 'periodMs'],
+  poisson: ['rate'],
+  silence: []
+};
+
+function isNonNegativeNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * Validate untrusted scenario JSON
+ * Throws an Error describing the first problem found
+ */
+export function parseScenario(json: unknown): Scenario {
+  if (typeof json !== 'object' || json === null) {
+    throw new Error('Scenario must be a JSON object');
+  }
+
+  const { name, loop, phases } = json as Record<string, unknown>;
+  if (typeof name !== 'string' || name.length === 0) {
+    throw new Error('Scenario needs a "name"');
+  }
+  if (loop !== undefined && typeof loop !== 'boolean') {
+    throw new Error('"loop" must be a boolean');
+  }
+  if (!Array.isArray(phases) || phases.length === 0) {
+    throw new Error('Scenario needs a non-empty "phases" array');
+  }
+
+  phases.forEach((phase, index) => {
+    const type = phase?.type as ScenarioPhase['type'];
+    // Own keys only: `in` would also accept "toString" and friends
+    if (typeof type !== 'string' || !Object.prototype.hasOwnProperty.call(PHASE_FIELDS, type)) {
+      throw new Error(`Phase ${index + 1}: unknown type "${phase?.type}"`);
+    }
+    if (!isNonNegativeNumber(phase.durationMs) || phase.durationMs === 0) {
+      throw new Error(`Phase ${index + 1}: "durationMs" must be a positive number`);
+    }
+    PHASE_FIELDS[type].forEach(field => {
+      if (!isNonNegativeNumber(phase[field])) {
+        throw new Error(`Phase ${index + 1} (${type}): "${field}" must be a non-negative number`);
+      }
+    });
+    if (type === 'sine' && phase.periodMs === 0) {
+      throw new Error(`Phase ${index + 1} (sine): "periodMs" must be positive`);
+    }
+  });
+
+  return { name, loop: loop === true, phases: phases as ScenarioPhase[] };
+}
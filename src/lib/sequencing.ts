@@ -0,0 +1,115 @@
+import type { TickerUpdate } from '@/types/ticker';
+
+/**
+ * Sequence Guard
+ *
+ * Checks incoming updates against the last sequence number applied per
+ * symbol, before they reach the buffer:
+ *
+ * - duplicate: an id seen recently, or the sequence number just applied
+ * - stale:     a sequence number below the last one applied (reordered,
+ *              or already covered by a snapshot); rejected
+ * - gap:       a sequence number past the next expected one, so updates
+ *              were lost on the way. The update is still newer than
+ *              anything applied, so it passes, and the symbol is reported
+ *              for a resync until a snapshot for it arrives
+ *
+ * Snapshots ('symbols', resync 'snapshot') set the baseline: a symbol's
+ * next update must carry the snapshot's number + 1. Updates without a
+ * sequence number are only checked for duplicate ids.
+ */
+
+// Ids remembered for duplicate detection
+const RECENT_IDS = 4096;
+
+export interface SequenceCheck {
+  accepted: TickerUpdate[];
+  rejected: number;
+  duplicates: number;
+  gaps: string[]; // Symbols with a new gap, to resync
+}
+
+export class SequenceGuard {
+  private lastSeq = new Map<string, number>();
+  private resyncing = new Set<string>();
+  private recentIds = new Set<string>();
+  private recentOrder: string[] = [];
+  private recentIndex = 0;
+
+  check(updates: TickerUpdate[]): SequenceCheck {
+    const accepted: TickerUpdate[] = [];
+    const gaps: string[] = [];
+    let rejected = 0;
+    let duplicates = 0;
+
+    updates.forEach(update => {
+      if (this.recentIds.has(update.id)) {
+        duplicates++;
+        return;
+      }
+
+      const { symbol, seq } = update;
+      const last = this.lastSeq.get(symbol);
+      if (seq !== undefined && last !== undefined) {
+        if (seq === last) {
+          duplicates++;
+          return;
+        }
+        if (seq < last) {
+          rejected++;
+          return;
+        }
+        if (seq > last + 1 && !this.resyncing.has(symbol)) {
+          this.resyncing.add(symbol);
+          gaps.push(symbol);
+        }
+      }
+
+      if (seq !== undefined) this.lastSeq.set(symbol, seq);
+      this.remember(update.id);
+      accepted.push(update);
+    });
+
+    return { accepted, rejected, duplicates, gaps };
+  }
+
+  /**
+   * Line up with a resync snapshot
+   * Returns the rows that are newer than what was applied since the gap
+   */
+  applySnapshot(rows: TickerUpdate[]): TickerUpdate[] {
+    return rows.filter(row => {
+      this.resyncing.delete(row.symbol);
+      const last = this.lastSeq.get(row.symbol);
+      if (row.seq === undefined || (last !== undefined && row.seq <= last)) return false;
+      this.lastSeq.set(row.symbol, row.seq);
+      return true;
+    });
+  }
+
+  /**
+   * Start over from a full snapshot ('symbols')
+   */
+  reset(rows: TickerUpdate[]) {
+    this.lastSeq.clear();
+    this.resyncing.clear();
+    this.recentIds.clear();
+    this.recentOrder = [];
+    this.recentIndex = 0;
+    rows.forEach(row => {
+      if (row.seq !== undefined) this.lastSeq.set(row.symbol, row.seq);
+    });
+  }
+
+  // Fixed-size FIFO of ids: the oldest is forgotten as a new one comes in
+  private remember(id: string) {
+    if (this.recentOrder.length < RECENT_IDS) {
+      this.recentOrder.push(id);
+    } else {
+      this.recentIds.delete(this.recentOrder[this.recentIndex]);
+      this.recentOrder[this.recentIndex] = id;
+      this.recentIndex = (this.recentIndex + 1) % RECENT_IDS;
+    }
+    this.recentIds.add(id);
+  }
+}
@@ -0,0 +1,167 @@
+import type { RingStatus, TickerUpdate } from '@/types/ticker';
+
+/**
+ * Shared Ring Buffer
+ *
+ * Single-producer / single-consumer ring in a SharedArrayBuffer, used by
+ * the worker's 'shared' transport. The worker appends at the tail
+ * (writeRing), the main thread drains from the head (drainRing); neither
+ * side ever blocks.
+ *
+ * Layout:
+ *
+ *   Int32 header[4]: head | tail | overflow | capacity
+ *   Float64 price[capacity] | Float64 change[capacity] | Float64 volume[capacity]
+ *   Float64 timestamp[capacity] | Uint32 symbolIndex[capacity] | Uint32 sequence[capacity]
+ *   Uint32 tableVersion[capacity] | Uint32 seq[capacity] | Uint32 size[capacity]
+ *
+ * Head and tail are free-running counters (they wrap at 2^32); the slot
+ * is `index & (capacity - 1)`, so capacity must be a power of two. Slots
+ * are written before the tail is published with Atomics.store, and read
+ * before the head is released, which is all the ordering SPSC needs.
+ * When the ring is full the worker drops the update and bumps `overflow`.
+ *
+ * Slots carry the version of the symbol table they were written against.
+ * After a universe rebuild, ring writes can land before the new
+ * 'symbolTable' message does, so draining stops at the first slot whose
+ * table hasn't arrived yet and resumes on a later frame.
+ */
+
+export const RING_HEAD = 0;
+export const RING_TAIL = 1;
+export const RING_OVERFLOW = 2;
+export const RING_CAPACITY = 3;
+
+const HEADER_BYTES = 16;
+const BYTES_PER_SLOT = 4 * 8 + 5 * 4;
+
+export const DEFAULT_RING_CAPACITY = 1 << 16;
+
+// SharedArrayBuffer only exists on cross-origin isolated pages (COOP/COEP)
+export function isSharedRingAvailable() {
+  return typeof SharedArrayBuffer !== 'undefined' && globalThis.crossOriginIsolated === true;
+}
+
+export function createRing(capacity = DEFAULT_RING_CAPACITY): SharedArrayBuffer {
+  if (capacity <= 0 || (capacity & (capacity - 1)) !== 0) {
+    throw new Error(`Ring capacity must be a power of two, got ${capacity}`);
+  }
+  const buffer = new SharedArrayBuffer(HEADER_BYTES + capacity * BYTES_PER_SLOT);
+  new Int32Array(buffer, 0, 4)[RING_CAPACITY] = capacity;
+  return buffer;
+}
+
+function ringColumns(buffer: SharedArrayBuffer, capacity: number) {
+  return {
+    price: new Float64Array(buffer, HEADER_BYTES, capacity),
+    change: new Float64Array(buffer, HEADER_BYTES + capacity * 8, capacity),
+    volume: new Float64Array(buffer, HEADER_BYTES + capacity * 16, capacity),
+    timestamp: new Float64Array(buffer, HEADER_BYTES + capacity * 24, capacity),
+    symbolIndex: new Uint32Array(buffer, HEADER_BYTES + capacity * 32, capacity),
+    sequence: new Uint32Array(buffer, HEADER_BYTES + capacity * 36, capacity),
+    tableVersion: new Uint32Array(buffer, HEADER_BYTES + capacity * 40, capacity),
+    seq: new Uint32Array(buffer, HEADER_BYTES + capacity * 44, capacity),
+    size: new Uint32Array(buffer, HEADER_BYTES + capacity * 48, capacity)
+  };
+}
+
+export function getRingStatus(buffer: SharedArrayBuffer): RingStatus {
+  const header = new Int32Array(buffer, 0, 4);
+  const head = Atomics.load(header, RING_HEAD);
+  const tail = Atomics.load(header, RING_TAIL);
+  return {
+    capacity: header[RING_CAPACITY],
+    used: (tail - head) >>> 0,
+    overflow: Atomics.load(header, RING_OVERFLOW)
+  };
+}
+
+/**
+ * Read published updates and release their slots back to the worker
+ * @param symbolTables symbol tables received so far, keyed by version
+ */
+export function drainRing(
+  buffer: SharedArrayBuffer,
+  symbolTables: Map<number, string[]>
+): TickerUpdate[] {
+  const header = new Int32Array(buffer, 0, 4);
+  const capacity = header[RING_CAPACITY];
+  const mask = capacity - 1;
+
+  const head = Atomics.load(header, RING_HEAD);
+  const tail = Atomics.load(header, RING_TAIL);
+  const available = (tail - head) >>> 0;
+  if (available === 0) return [];
+
+  const { price, change, volume, timestamp, symbolIndex, sequence, tableVersion, seq, size } =
+    ringColumns(buffer, capacity);
+
+  const updates: TickerUpdate[] = [];
+  let count = 0;
+  while (count < available) {
+    const slot = (head + count) & mask;
+    const symbolTable = symbolTables.get(tableVersion[slot]);
+    if (!symbolTable) break;
+
+    const symbol = symbolTable[symbolIndex[slot]];
+    updates.push({
+      symbol,
+      price: price[slot],
+      change: change[slot],
+      volume: volume[slot],
+      timestamp: timestamp[slot],
+      id: `${symbol}-${sequence[slot]}`,
+      seq: seq[slot],
+      size: size[slot]
+    });
+    count++;
+  }
+
+  Atomics.store(header, RING_HEAD, (head + count) | 0);
+  return updates;
+}
+
+/**
+ * Append updates to the ring (worker side); slots are filled before the
+ * tail is published, and whatever doesn't fit is counted as overflow
+ * @param symbolIndex position of each symbol in the symbol table
+ * @param tableVersion version of that symbol table
+ * @returns number of updates dropped
+ */
+export function writeRing(
+  buffer: SharedArrayBuffer,
+  updates: TickerUpdate[],
+  symbolIndex: Map<string, number>,
+  tableVersion: number
+): number {
+  const header = new Int32Array(buffer, 0, 4);
+  const capacity = header[RING_CAPACITY];
+  const mask = capacity - 1;
+  const columns = ringColumns(buffer, capacity);
+
+  const head = Atomics.load(header, RING_HEAD);
+  let tail = Atomics.load(header, RING_TAIL);
+  const free = capacity - ((tail - head) >>> 0);
+  const count = Math.min(free, updates.length);
+
+  for (let i = 0; i < count; i++) {
+    const update = updates[i];
+    const slot = tail & mask;
+    columns.price[slot] = update.price;
+    columns.change[slot] = update.change;
+    columns.volume[slot] = update.volume;
+    columns.timestamp[slot] = update.timestamp;
+    columns.symbolIndex[slot] = symbolIndex.get(update.symbol);
+    columns.sequence[slot] = Number(update.id.slice(update.symbol.length + 1));
+    columns.tableVersion[slot] = tableVersion;
+    columns.seq[slot] = update.seq;
+    columns.size[slot] = update.size;
+    tail = (tail + 1) | 0;
+  }
+
+  Atomics.store(header, RING_TAIL, tail);
+  if (count < updates.length) {
+    Atomics.add(header, RING_OVERFLOW, updates.length - count);
+  }
+  return updates.length - count;
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import type { SymbolPolicy, TickerState, TickerUpdate } from '@/types/ticker';
+import { NO_SYMBOL_POLICY, SETTLE_MS, SymbolFilter } from './symbolPolicy';
+
+function update(price: number, seq: number): TickerUpdate {
+  return { symbol: 'AAPL', price, change: 0, volume: 0, timestamp: 0, id: `AAPL-${seq}`, seq };
+}
+
+// A filter plus a one-row "screen" that shows what it lets through
+function setup(policy: Partial<SymbolPolicy>) {
+  const filter = new SymbolFilter({ ...NO_SYMBOL_POLICY, ...policy }, {});
+  let onScreen = 100;
+  const getTicker = () => ({ price: onScreen }) as TickerState;
+  const render = (updates: TickerUpdate[]) => {
+    updates.forEach(rendered => {
+      onScreen = rendered.price;
+    });
+    return updates.map(rendered => rendered.price);
+  };
+  return {
+    process: (now: number, ...updates: TickerUpdate[]) =>
+      render(filter.process(updates, { now, getTicker })),
+    due: (now: number) => render(filter.due({ now, getTicker })),
+    onScreen: () => onScreen
+  };
+}
+
+describe('SymbolFilter', () => {
+  it('renders the last rate-limited update once the window ends', () => {
+    const row = setup({ maxRendersPerSecond: 2 });
+
+    expect(row.process(0, update(101, 1))).toEqual([101]);
+    expect(row.process(100, update(102, 2), update(103, 3))).toEqual([]);
+    expect(row.due(499)).toEqual([]);
+    expect(row.due(500)).toEqual([103]);
+    // Nothing left to release
+    expect(row.due(2000)).toEqual([]);
+  });
+
+  it('drops a held update once a newer one renders', () => {
+    const row = setup({ maxRendersPerSecond: 2 });
+
+    row.process(0, update(101, 1));
+    row.process(100, update(102, 2));
+    expect(row.process(600, update(104, 3))).toEqual([104]);
+    expect(row.due(5000)).toEqual([]);
+    expect(row.onScreen()).toBe(104);
+  });
+
+  it('renders small moves once they add up past the minimum', () => {
+    const row = setup({ minMoveTicks: 5 });
+
+    expect(row.process(0, update(100.02, 1))).toEqual([]);
+    expect(row.process(10, update(100.05, 2))).toEqual([100.05]);
+  });
+
+  it('settles on the final price when the feed goes quiet below the minimum', () => {
+    const row = setup({ minMoveTicks: 5 });
+
+    row.process(0, update(100.02, 1));
+    row.process(200, update(100.03, 2));
+    expect(row.due(200 + SETTLE_MS - 1)).toEqual([]);
+    expect(row.due(200 + SETTLE_MS)).toEqual([100.03]);
+  });
+
+  it('holds nothing once the policy is turned off', () => {
+    const filter = new SymbolFilter({ ...NO_SYMBOL_POLICY, maxRendersPerSecond: 1 }, {});
+    const getTicker = () => ({ price: 100 }) as TickerState;
+
+    filter.process([update(101, 1)], { now: 0, getTicker });
+    filter.process([update(102, 2)], { now: 10, getTicker });
+    filter.configure(NO_SYMBOL_POLICY, {});
+    expect(filter.due({ now: 5000, getTicker })).toEqual([]);
+  });
+});
@@ -0,0 +1,153 @@
+import type { SymbolPolicy, TickerUpdate } from '@/types/ticker';
+import type { PipelineStage, StageContext } from '@/pipeline/StreamPipeline';
+
+/**
+ * Symbol Render Policies
+ *
+ * Filters applied per symbol as a flush patches rows, so a few noisy
+ * instruments can't take the whole render budget or flicker constantly:
+ *
+ * - maxRendersPerSecond: at most N renders per symbol per second
+ * - minMoveTicks:        ignore moves smaller than N price ticks
+ * - minMovePercent:      ignore moves smaller than Y% of the price
+ *
+ * Moves are measured against the price on screen, not the previous
+ * update, so a run of small moves still renders once it adds up.
+ * A limit of 0 is off, and a symbol's own policy replaces the global one
+ * entirely.
+ *
+ * TRAILING EDGE
+ * A filtered update isn't thrown away: the latest one per symbol is held
+ * back, so a row never sits on an old price after the feed goes quiet.
+ * A newer update replaces it, and one that passes drops it. Otherwise it
+ * is rendered on its own (due()):
+ * - held by the rate limit: once the symbol's rate window ends
+ * - held as too small a move: once the symbol has been quiet for
+ *   SETTLE_MS; the final price is shown even if its total move never
+ *   reached the minimum
+ *
+ * Runs as a flush stage of StreamPipeline.
+ */
+
+// Price increment of the simulated instruments
+export const PRICE_TICK = 0.01;
+
+// Quiet time after which a held-back small move is rendered anyway
+export const SETTLE_MS = 1000;
+
+interface Deferred {
+  update: TickerUpdate;
+  dueAt: number;
+}
+
+export const NO_SYMBOL_POLICY: SymbolPolicy = {
+  maxRendersPerSecond: 0,
+  minMoveTicks: 0,
+  minMovePercent: 0
+};
+
+export function isPolicyActive(policy: SymbolPolicy) {
+  return policy.maxRendersPerSecond > 0 || policy.minMoveTicks > 0 || policy.minMovePercent > 0;
+}
+
+export class SymbolFilter implements PipelineStage {
+  readonly name = 'symbol-policy';
+
+  private lastRenderAt = new Map<string, number>();
+  private deferred = new Map<string, Deferred>();
+  private active = false;
+
+  constructor(
+    private global: SymbolPolicy,
+    private overrides: Record<string, SymbolPolicy>
+  ) {
+    this.active = this.computeActive();
+  }
+
+  configure(global: SymbolPolicy, overrides: Record<string, SymbolPolicy>) {
+    this.global = global;
+    this.overrides = overrides;
+    this.active = this.computeActive();
+    // Everything passes from now on, so held updates would only go stale
+    if (!this.active) {
+      this.deferred.clear();
+    }
+  }
+
+  policyFor(symbol: string): SymbolPolicy {
+    return this.overrides[symbol] ?? this.global;
+  }
+
+  process(updates: TickerUpdate[], { now, getTicker }: StageContext): TickerUpdate[] {
+    if (!this.active) return updates;
+    return updates.filter(update => this.accept(update, getTicker(update.symbol)?.price, now));
+  }
+
+  /**
+   * Held-back updates whose time has come (see TRAILING EDGE)
+   */
+  due({ now }: StageContext): TickerUpdate[] {
+    if (this.deferred.size === 0) return [];
+
+    const released: TickerUpdate[] = [];
+    this.deferred.forEach(({ update, dueAt }, symbol) => {
+      if (now < dueAt) return;
+      this.deferred.delete(symbol);
+      this.markRendered(update.symbol, now);
+      released.push(update);
+    });
+    return released;
+  }
+
+  /**
+   * Whether an update should be rendered now; one that shouldn't is held
+   * back as the symbol's latest
+   * @param renderedPrice price currently on screen, if the row exists
+   * @param now timestamp in ms (performance.now())
+   */
+  accept(update: TickerUpdate, renderedPrice: number | undefined, now: number): boolean {
+    if (!this.active) return true;
+
+    const policy = this.policyFor(update.symbol);
+    if (renderedPrice !== undefined) {
+      const lastRender = this.lastRenderAt.get(update.symbol);
+      const windowEndsAt = policy.maxRendersPerSecond > 0 && lastRender !== undefined
+        ? lastRender + 1000 / policy.maxRendersPerSecond
+        : 0;
+      const rateLimited = now < windowEndsAt;
+
+      const move = Math.abs(update.price - renderedPrice);
+      const tooSmall =
+        // Small epsilon so a move of exactly N ticks isn't lost to float error
+        (policy.minMoveTicks > 0 && move < policy.minMoveTicks * PRICE_TICK - 1e-9) ||
+        (policy.minMovePercent > 0 && (move / renderedPrice) * 100 < policy.minMovePercent);
+
+      if (rateLimited || tooSmall) {
+        this.deferred.set(update.symbol, {
+          update,
+          dueAt: tooSmall ? Math.max(windowEndsAt, now + SETTLE_MS) : windowEndsAt
+        });
+        return false;
+      }
+    }
+
+    this.deferred.delete(update.symbol);
+    this.markRendered(update.symbol, now);
+    return true;
+  }
+
+  reset() {
+    this.lastRenderAt.clear();
+    this.deferred.clear();
+  }
+
+  private markRendered(symbol: string, now: number) {
+    if (this.policyFor(symbol).maxRendersPerSecond > 0) {
+      this.lastRenderAt.set(symbol, now);
+    }
+  }
+
+  private computeActive() {
+    return isPolicyActive(this.global) || Object.values(this.overrides).some(isPolicyActive);
+  }
+}
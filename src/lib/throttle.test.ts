@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import {
+  AimdThrottle,
+  createThrottleStrategy,
+  PidThrottle,
+  TokenBucketThrottle,
+  type ThrottleStrategy
+} from './throttle';
+
+const THRESHOLD = 100;
+const INTERVAL_MS = 16;
+
+// Decisions for a run of buffer sizes, one flush interval apart
+function run(strategy: ThrottleStrategy, bufferSizes: number[], start = 0) {
+  return bufferSizes.map((bufferSize, i) =>
+    strategy.decide({
+      now: start + i * INTERVAL_MS,
+      bufferSize,
+      threshold: THRESHOLD,
+      intervalMs: INTERVAL_MS
+    })
+  );
+}
+
+describe('createThrottleStrategy', () => {
+  it('creates each kind', () => {
+    expect(createThrottleStrategy('token-bucket')).toBeInstanceOf(TokenBucketThrottle);
+    expect(createThrottleStrategy('aimd')).toBeInstanceOf(AimdThrottle);
+    expect(createThrottleStrategy('pid')).toBeInstanceOf(PidThrottle);
+  });
+});
+
+describe('TokenBucketThrottle', () => {
+  it('flushes while the bucket covers the buffer, then waits for a refill', () => {
+    const throttle = new TokenBucketThrottle();
+    const decide = (now: number, bufferSize: number) =>
+      throttle.decide({ now, bufferSize, threshold: THRESHOLD, intervalMs: INTERVAL_MS });
+
+    expect(decide(0, 50)).toEqual({ flush: true, level: 0 });
+    // 50 tokens left for 80 rows
+    expect(decide(0, 80)).toEqual({ flush: false, level: 0.375 });
+    // Half a bucket refills per interval
+    expect(decide(16, 80)).toEqual({ flush: true, level: 0 });
+  });
+
+  it('takes an oversized buffer as debt', () => {
+    const throttle = new TokenBucketThrottle();
+    const decide = (now: number, bufferSize: number) =>
+      throttle.decide({ now, bufferSize, threshold: THRESHOLD, intervalMs: INTERVAL_MS });
+
+    expect(decide(0, 300).flush).toBe(true);
+    // -200 tokens, refilled by 100 two intervals later: still in debt
+    expect(decide(32, 10).flush).toBe(false);
+    expect(decide(96, 10).flush).toBe(true);
+  });
+});
+
+describe('AimdThrottle', () => {
+  it('halves the flush rate while congested, down to one cycle in four', () => {
+    const decisions = run(new AimdThrottle(), [60, 60, 60, 60]);
+    expect(decisions.map(decision => decision.level)).toEqual([0.5, 0.75, 0.75, 0.75]);
+    expect(decisions.map(decision => decision.flush)).toEqual([false, false, true, false]);
+  });
+
+  it('recovers additively once the buffer drains', () => {
+    const throttle = new AimdThrottle();
+    run(throttle, [60, 60]);
+    const levels = run(throttle, [0, 0, 0], 32).map(decision => decision.level);
+    expect(levels[0]).toBeCloseTo(0.7);
+    expect(levels[1]).toBeCloseTo(0.65);
+    expect(levels[2]).toBeCloseTo(0.6);
+  });
+});
+
+describe('PidThrottle', () => {
+  it('flushes every cycle without throttling while the buffer is below the target', () => {
+    const decisions = run(new PidThrottle(), [0, 10, 25, 40, 0]);
+    decisions.forEach(decision => {
+      expect(decision).toEqual({ flush: true, level: 0 });
+    });
+  });
+
+  it('holds back once the buffer is past the target, harder the longer it stays there', () => {
+    const decisions = run(new PidThrottle(), [100, 100, 100, 100]);
+    const levels = decisions.map(decision => decision.level);
+    expect(levels[0]).toBeCloseTo(0.6);
+    expect(levels[1]).toBeCloseTo(0.7);
+    expect(levels[2]).toBeCloseTo(0.75);
+    expect(levels[3]).toBeCloseTo(0.75);
+    expect(decisions.map(decision => decision.flush)).toEqual([false, false, false, true]);
+  });
+
+  it('holds back harder the deeper the buffer is', () => {
+    const [shallow] = run(new PidThrottle(), [75]);
+    const [deep] = run(new PidThrottle(), [90]);
+    expect(shallow.level).toBeCloseTo(0.3);
+    expect(deep.level).toBeGreaterThan(shallow.level);
+  });
+
+  it('reacts to load straight after a long idle spell', () => {
+    const throttle = new PidThrottle();
+    run(throttle, new Array(100).fill(0));
+    const [loaded] = run(throttle, [100], 100 * INTERVAL_MS);
+    expect(loaded.flush).toBe(false);
+    expect(loaded.level).toBeGreaterThan(0.5);
+  });
+});
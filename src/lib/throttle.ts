@@ -0,0 +1,162 @@
+import type { ThrottleStrategyKind } from '@/types/ticker';
+
+/**
+ * Throttle Strategies
+ *
+ * Decide, once per flush opportunity, whether flushBuffer applies the
+ * buffer now or skips a cycle and lets it keep coalescing. Strategies are
+ * deterministic: time only comes in through `now`, so the same sequence
+ * of inputs always gives the same decisions (drive them with a virtual
+ * clock to reproduce a run).
+ *
+ * - token-bucket: render budget in rows, refilled at `threshold` rows per
+ *   two intervals; a flush waits until the bucket covers the buffer
+ * - aimd: flush rate halves while the buffer is congested (over half the
+ *   threshold) and recovers additively once it isn't
+ * - pid: holds the buffer at a setpoint of half the threshold. Below it,
+ *   every cycle flushes; above it, the controller skips cycles in
+ *   proportion to how far (P), how long (I) and how fast (D) the buffer
+ *   is over, so updates coalesce and renders are shed
+ *
+ * Rate-based strategies turn a fractional rate into decisions with an
+ * accumulator, so a rate of 0.25 flushes exactly every fourth cycle.
+ */
+
+export interface ThrottleInput {
+  now: number;
+  bufferSize: number;
+  threshold: number; // StreamConfig.throttleThreshold
+  intervalMs: number; // Current flush interval (fixed or adaptive)
+}
+
+export interface ThrottleDecision {
+  flush: boolean;
+  level: number; // 0-1, how hard the strategy is holding back
+}
+
+export interface ThrottleStrategy {
+  readonly kind: ThrottleStrategyKind;
+  decide(input: ThrottleInput): ThrottleDecision;
+}
+
+// Rate strategies always flush at least one cycle in four
+const MIN_FLUSH_RATE = 0.25;
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Emits `true` at an average of `rate` per call, evenly spread
+ */
+class RateAccumulator {
+  private credit = 0;
+
+  next(rate: number) {
+    this.credit += rate;
+    if (this.credit >= 1) {
+      this.credit -= 1;
+      return true;
+    }
+    return false;
+  }
+}
+
+export class TokenBucketThrottle implements ThrottleStrategy {
+  readonly kind = 'token-bucket';
+
+  private tokens: number | null = null;
+  private lastRefill = 0;
+
+  decide({ now, bufferSize, threshold, intervalMs }: ThrottleInput): ThrottleDecision {
+    const capacity = threshold;
+    if (this.tokens === null) {
+      this.tokens = capacity;
+    } else {
+      const refillPerMs = threshold / (2 * intervalMs);
+      this.tokens = Math.min(capacity, this.tokens + (now - this.lastRefill) * refillPerMs);
+    }
+    this.lastRefill = now;
+
+    // A buffer larger than the bucket only needs a full bucket; the rest
+    // is taken as debt and paid back before the next flush
+    const cost = Math.min(bufferSize, capacity);
+    const level = bufferSize > 0 ? clamp((bufferSize - this.tokens) / bufferSize, 0, 1) : 0;
+    if (this.tokens < cost) {
+      return { flush: false, level };
+    }
+
+    this.tokens -= bufferSize;
+    return { flush: true, level };
+  }
+}
+
+export class AimdThrottle implements ThrottleStrategy {
+  readonly kind = 'aimd';
+
+  private rate = 1;
+  private accumulator = new RateAccumulator();
+
+  constructor(
+    private readonly increase = 0.05,
+    private readonly decrease = 0.5
+  ) {}
+
+  decide({ bufferSize, threshold }: ThrottleInput): ThrottleDecision {
+    if (bufferSize > threshold * 0.5) {
+      this.rate = Math.max(MIN_FLUSH_RATE, this.rate * this.decrease);
+    } else {
+      this.rate = Math.min(1, this.rate + this.increase);
+    }
+    return { flush: this.accumulator.next(this.rate), level: 1 - this.rate };
+  }
+}
+
+export class PidThrottle implements ThrottleStrategy {
+  readonly kind = 'pid';
+
+  private integral = 0;
+  private lastError: number | null = null;
+  private lastTime = 0;
+  private accumulator = new RateAccumulator();
+
+  constructor(
+    private readonly kp = 0.5,
+    private readonly ki = 0.1,
+    private readonly kd = 0.05
+  ) {}
+
+  decide({ now, bufferSize, threshold, intervalMs }: ThrottleInput): ThrottleDecision {
+    const target = threshold * 0.5;
+    // Positive when the buffer is deeper than the target
+    const error = (bufferSize - target) / target;
+    // Time step in flush intervals, so gains don't depend on the interval
+    const dt = this.lastError === null ? 1 : Math.max(1e-3, (now - this.lastTime) / intervalMs);
+
+    const maxLevel = 1 - MIN_FLUSH_RATE;
+    // Clamp the integral to the output range to avoid windup; it never goes
+    // negative, or a long idle spell would delay the response to load
+    this.integral = clamp(this.integral + error * dt, 0, maxLevel / this.ki);
+    const derivative = this.lastError === null ? 0 : (error - this.lastError) / dt;
+    this.lastError = error;
+    this.lastTime = now;
+
+    const level = clamp(
+      this.kp * error + this.ki * this.integral + this.kd * derivative,
+      0,
+      maxLevel
+    );
+    return { flush: this.accumulator.next(1 - level), level };
+  }
+}
+
+export function createThrottleStrategy(kind: ThrottleStrategyKind): ThrottleStrategy {
+  switch (kind) {
+    case 'token-bucket':
+      return new TokenBucketThrottle();
+    case 'aimd':
+      return new AimdThrottle();
+    case 'pid':
+      return new PidThrottle();
+  }
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import type { TickerState } from '@/types/ticker';
+import { TickerStore } from './tickerStore';
+
+function row(symbol: string, change: number): TickerState {
+  return { symbol, price: 100, change, volume: 0, timestamp: 0, id: `${symbol}-0`, lastUpdated: 0 };
+}
+
+describe('TickerStore breadth', () => {
+  it('counts advancing and declining rows on reset', () => {
+    const store = new TickerStore();
+    store.reset([row('AAPL', 1), row('MSFT', -1), row('IBM', 0), row('NVDA', 2)]);
+    expect(store.getBreadth()).toEqual({ advancing: 2, declining: 1 });
+  });
+
+  it('moves rows between counts as their change flips', () => {
+    const store = new TickerStore();
+    store.reset([row('AAPL', 1), row('MSFT', -1)]);
+
+    store.set(row('AAPL', -0.5));
+    store.set(row('MSFT', 0));
+    store.set(row('TSLA', 3));
+    store.commit();
+    expect(store.getBreadth()).toEqual({ advancing: 1, declining: 1 });
+  });
+
+  it('keeps the same object while the counts hold', () => {
+    const store = new TickerStore();
+    store.reset([row('AAPL', 1), row('MSFT', -1)]);
+    const before = store.getBreadth();
+
+    store.set(row('AAPL', 2));
+    store.commit();
+    expect(store.getBreadth()).toBe(before);
+  });
+
+  it('publishes the counts on commit, not on set', () => {
+    const store = new TickerStore();
+    store.reset([row('AAPL', 1)]);
+
+    store.set(row('AAPL', -1));
+    expect(store.getBreadth()).toEqual({ advancing: 1, declining: 0 });
+    store.commit();
+    expect(store.getBreadth()).toEqual({ advancing: 0, declining: 1 });
+  });
+});
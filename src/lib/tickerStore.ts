@@ -0,0 +1,187 @@
+import type { TickerState } from '@/types/ticker';
+
+/**
+ * Ticker Store
+ *
+ * External store for ticker rows, read through useSyncExternalStore (see
+ * hooks/useTicker.ts). Rows live in a symbol-sorted array with a
+ * symbol -> position index. Writers patch rows with set() and call
+ * commit() once per batch; commit notifies only the listeners of the
+ * symbols that changed, so a flush touching three symbols re-renders
+ * three rows, not the table.
+ *
+ * - subscribe(symbol):  that symbol's row changed
+ * - subscribeSymbols(): the symbol list changed (new snapshot or a
+ *   symbol the feed hadn't sent before)
+ * - subscribeAll():     any commit; getVersion() tells commits apart,
+ *   for selectors over all rows
+ *
+ * Market breadth (advancing / declining symbols) is kept up to date by
+ * set() and reset() from each row's old and new change, so reading it
+ * after a commit costs nothing, however many rows there are.
+ *
+ * Snapshots are immutable: a changed row is a new object and the symbol
+ * list is a new array whenever it changes, so both can be handed to React
+ * as-is.
+ */
+
+type Listener = () => void;
+
+export interface Breadth {
+  advancing: number;
+  declining: number;
+}
+
+// Plain code-unit comparison: tickers are ASCII and localeCompare is slow at 50k rows
+function compareSymbols(a: string, b: string) {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+export class TickerStore {
+  private rows: TickerState[] = [];
+  private index = new Map<string, number>();
+  private symbols: string[] = [];
+  private listeners = new Map<string, Set<Listener>>();
+  private symbolListeners = new Set<Listener>();
+  private allListeners = new Set<Listener>();
+  private version = 0;
+  private dirty = new Set<string>();
+  private symbolsChanged = false;
+  private advancing = 0;
+  private declining = 0;
+  private breadth: Breadth = { advancing: 0, declining: 0 };
+
+  get size() {
+    return this.rows.length;
+  }
+
+  getTicker = (symbol: string): TickerState | undefined => {
+    const position = this.index.get(symbol);
+    return position !== undefined ? this.rows[position] : undefined;
+  };
+
+  getSymbols = (): readonly string[] => this.symbols;
+
+  // Rows are patched in place; compare versions, not arrays
+  getRows(): readonly TickerState[] {
+    return this.rows;
+  }
+
+  getVersion = () => this.version;
+
+  // Same object until a commit changes the counts
+  getBreadth = () => this.breadth;
+
+  subscribe = (symbol: string, listener: Listener) => {
+    let listeners = this.listeners.get(symbol);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(symbol, listeners);
+    }
+    listeners.add(listener);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) this.listeners.delete(symbol);
+    };
+  };
+
+  subscribeSymbols = (listener: Listener) => {
+    this.symbolListeners.add(listener);
+    return () => {
+      this.symbolListeners.delete(listener);
+    };
+  };
+
+  subscribeAll = (listener: Listener) => {
+    this.allListeners.add(listener);
+    return () => {
+      this.allListeners.delete(listener);
+    };
+  };
+
+  /**
+   * Replace every row with a fresh snapshot and notify everyone
+   */
+  reset(rows: TickerState[]) {
+    this.rows = [...rows].sort((a, b) => compareSymbols(a.symbol, b.symbol));
+    this.index = new Map();
+    this.rows.forEach((row, position) => this.index.set(row.symbol, position));
+    this.advancing = 0;
+    this.declining = 0;
+    this.rows.forEach(row => this.countBreadth(row, 1));
+    this.listeners.forEach((_, symbol) => this.dirty.add(symbol));
+    this.symbolsChanged = true;
+    this.commit();
+  }
+
+  /**
+   * Patch one row; listeners hear about it on the next commit()
+   */
+  set(row: TickerState) {
+    const position = this.index.get(row.symbol);
+    if (position !== undefined) {
+      this.countBreadth(this.rows[position], -1);
+      this.rows[position] = row;
+    } else {
+      this.insert(row);
+      this.symbolsChanged = true;
+    }
+    this.countBreadth(row, 1);
+    this.dirty.add(row.symbol);
+  }
+
+  /**
+   * Notify listeners of everything set() since the last commit
+   */
+  commit() {
+    const symbolsChanged = this.symbolsChanged;
+    if (!symbolsChanged && this.dirty.size === 0) return;
+    this.version++;
+
+    if (this.breadth.advancing !== this.advancing || this.breadth.declining !== this.declining) {
+      this.breadth = { advancing: this.advancing, declining: this.declining };
+    }
+
+    if (symbolsChanged) {
+      this.symbolsChanged = false;
+      this.symbols = this.rows.map(row => row.symbol);
+      this.symbolListeners.forEach(listener => listener());
+    }
+
+    const dirty = this.dirty;
+    this.dirty = new Set();
+    dirty.forEach(symbol => {
+      this.listeners.get(symbol)?.forEach(listener => listener());
+    });
+    this.allListeners.forEach(listener => listener());
+  }
+
+  private countBreadth(row: TickerState, delta: number) {
+    if (row.change > 0) this.advancing += delta;
+    else if (row.change < 0) this.declining += delta;
+  }
+
+  /**
+   * Insert a row for a symbol missing from the snapshot, keeping rows sorted.
+   * O(n), but only happens when a feed introduces a brand new symbol.
+   */
+  private insert(row: TickerState) {
+    const rows = this.rows;
+    let low = 0;
+    let high = rows.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (compareSymbols(rows[mid].symbol, row.symbol) < 0) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    rows.splice(low, 0, row);
+    for (let position = low; position < rows.length; position++) {
+      this.index.set(rows[position].symbol, position);
+    }
+  }
+}
@@ -0,0 +1,205 @@
+import type { CoalescingStrategy, OverflowPolicy, TickerUpdate } from '@/types/ticker';
+import { coalesceUpdates, type BufferedUpdate } from './coalescing';
+
+/**
+ * Bounded Update Buffer
+ *
+ * One pending update per symbol (coalescing: a newer update is merged
+ * into the pending one by the coalescing strategy, see coalescing.ts),
+ * capped at `capacity` symbols. Coalescing never grows the buffer, so the cap only bites when
+ * a new symbol arrives while it is full; the overflow policy decides:
+ *
+ * - drop-oldest:  evict the symbol that has been pending longest
+ * - drop-newest:  reject the incoming update
+ * - priority:     evict the pending update with the smallest move (|change|),
+ *                 or reject the incoming one if it is smaller still
+ * - pause-source: accept it anyway; the caller pauses the source while the
+ *                 buffer is full, so it only overshoots by what was in flight
+ *
+ * Priority eviction uses a lazy min-heap: replaced updates leave stale heap
+ * entries behind, which are skipped when popped and compacted away when the
+ * heap grows too far past the buffer.
+ */
+
+export type AddResult = 'added' | 'coalesced' | 'evicted' | 'rejected';
+
+interface HeapEntry {
+  priority: number;
+  update: BufferedUpdate;
+}
+
+function priorityOf(update: TickerUpdate) {
+  return Math.abs(update.change);
+}
+
+export class UpdateBuffer {
+  private pending = new Map<string, BufferedUpdate>();
+  private heap: HeapEntry[] = [];
+
+  constructor(
+    private capacity: number,
+    private policy: OverflowPolicy,
+    private strategy: CoalescingStrategy = 'latest'
+  ) {}
+
+  get size() {
+    return this.pending.size;
+  }
+
+  get isFull() {
+    return this.pending.size >= this.capacity;
+  }
+
+  configure(capacity: number, policy: OverflowPolicy) {
+    const rebuildHeap = policy === 'priority' && this.policy !== 'priority';
+    this.capacity = capacity;
+    this.policy = policy;
+
+    if (rebuildHeap) {
+      this.heap = [];
+      this.pending.forEach(update => this.push(update));
+    } else if (policy !== 'priority') {
+      this.heap = [];
+    }
+  }
+
+  setCoalescing(strategy: CoalescingStrategy) {
+    this.strategy = strategy;
+  }
+
+  add(update: TickerUpdate): AddResult {
+    const existing = this.pending.get(update.symbol);
+    if (existing) {
+      // Map.set keeps the key's original position, so age is preserved
+      const merged = coalesceUpdates(this.strategy, existing, update);
+      this.pending.set(update.symbol, merged);
+      this.track(merged);
+      return 'coalesced';
+    }
+
+    if (!this.isFull || this.policy === 'pause-source') {
+      this.pending.set(update.symbol, update);
+      this.track(update);
+      return 'added';
+    }
+
+    switch (this.policy) {
+      case 'drop-newest':
+        return 'rejected';
+
+      case 'drop-oldest': {
+        const oldest = this.pending.keys().next().value as string;
+        this.pending.delete(oldest);
+        break;
+      }
+
+      case 'priority': {
+        const lowest = this.peekLowest();
+        if (!lowest || lowest.priority >= priorityOf(update)) {
+          return 'rejected';
+        }
+        this.pop();
+        this.pending.delete(lowest.update.symbol);
+        break;
+      }
+    }
+
+    this.pending.set(update.symbol, update);
+    this.track(update);
+    return 'evicted';
+  }
+
+  /**
+   * Remove and return pending updates, oldest first
+   * @param limit max updates to take; the rest stay buffered
+   */
+  drain(limit = Infinity): BufferedUpdate[] {
+    if (limit >= this.pending.size) {
+      const updates = Array.from(this.pending.values());
+      this.clear();
+      return updates;
+    }
+
+    // Heap entries of taken updates go stale and are skipped later
+    const updates: BufferedUpdate[] = [];
+    for (const [symbol, update] of this.pending) {
+      if (updates.length >= limit) break;
+      updates.push(update);
+      this.pending.delete(symbol);
+    }
+    return updates;
+  }
+
+  /**
+   * Remove and return pending updates for the given symbols
+   * Used for the priority lane; costs O(symbols), not O(buffer)
+   */
+  take(symbols: Iterable<string>): BufferedUpdate[] {
+    const updates: BufferedUpdate[] = [];
+    for (const symbol of symbols) {
+      const update = this.pending.get(symbol);
+      if (update) {
+        updates.push(update);
+        this.pending.delete(symbol);
+      }
+    }
+    return updates;
+  }
+
+  clear() {
+    this.pending.clear();
+    this.heap = [];
+  }
+
+  private track(update: BufferedUpdate) {
+    if (this.policy !== 'priority') return;
+
+    this.push(update);
+    if (this.heap.length > this.pending.size * 2 + 64) {
+      this.heap = [];
+      this.pending.forEach(pending => this.push(pending));
+    }
+  }
+
+  // Lowest-priority live entry, discarding stale ones on the way
+  private peekLowest(): HeapEntry | undefined {
+    while (this.heap.length > 0) {
+      const top = this.heap[0];
+      if (this.pending.get(top.update.symbol) === top.update) return top;
+      this.pop();
+    }
+    return undefined;
+  }
+
+  private push(update: BufferedUpdate) {
+    const heap = this.heap;
+    heap.push({ priority: priorityOf(update), update });
+
+    let index = heap.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (heap[parent].priority <= heap[index].priority) break;
+      [heap[parent], heap[index]] = [heap[index], heap[parent]];
+      index = parent;
+    }
+  }
+
+  private pop() {
+    const heap = this.heap;
+    const last = heap.pop();
+    if (!last || heap.length === 0) return;
+
+    heap[0] = last;
+    let index = 0;
+    for (;;) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+      if (left < heap.length && heap[left].priority < heap[smallest].priority) smallest = left;
+      if (right < heap.length && heap[right].priority < heap[smallest].priority) smallest = right;
+      if (smallest === index) break;
+      [heap[smallest], heap[index]] = [heap[index], heap[smallest]];
+      index = smallest;
+    }
+  }
+}
@@ -4,3 +4,8 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+// Random 31-bit seed for the simulator PRNG
+export function randomSeed() {
+  return Math.floor(Math.random() * 0x7fffffff);
+}
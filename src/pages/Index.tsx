@@ -1,9 +1,21 @@
-import React from 'react';
-import { useDataStream } from '@/hooks/useDataStream';
+import React, { useMemo, useState } from 'react';
+import { useStream, useStreamControls } from '@/hooks/useStream';
+import { StreamProvider } from '@/components/StreamProvider';
 import { StatsCard } from '@/components/StatsCard';
 import { ControlPanel } from '@/components/ControlPanel';
+import { ReplayControls } from '@/components/ReplayControls';
+import { TransportPanel } from '@/components/TransportPanel';
+import { SymbolPolicyPanel } from '@/components/SymbolPolicyPanel';
+import { FaultPanel } from '@/components/FaultPanel';
+import { ValidationPanel } from '@/components/ValidationPanel';
 import { TickerTable } from '@/components/TickerTable';
-import { Activity } from 'lucide-react';
+import { MarketBreadth } from '@/components/MarketBreadth';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { createSource, SOURCE_LABELS, type SourceKind } from '@/sources/createSource';
+import { ReplaySource } from '@/sources/ReplaySource';
+import type { DataSource } from '@/sources/DataSource';
+import type { ConnectionState, StreamConfig } from '@/types/ticker';
+import { Activity, AlertTriangle } from 'lucide-react';
 
 /**
  * Real-Time Data Streaming Demo
@@ -17,27 +29,63 @@ import { Activity } from 'lucide-react';
  * 
  * Architecture:
  * - Web Worker generates thousands of updates per minute
- * - useDataStream hook manages buffering, coalescing, and backpressure
+ *   (or a WebSocket / SSE feed or a recording, selectable in the header)
+ * - StreamPipeline manages buffering, coalescing, and backpressure;
+ *   useDataStream adapts it to React, StreamProvider runs it once and
+ *   widgets subscribe to slices of it
  * - VirtualList component handles windowed rendering
  * - requestAnimationFrame ensures smooth UI updates
  */
 
+// Initial pipeline settings for the demo
+const STREAM_CONFIG: Partial<StreamConfig> = {
+  updatesPerSecond: 100,
+  bufferIntervalMs: 50,
+  throttleThreshold: 500
+};
+
 const Index = () => {
+  const [sourceKind, setSourceKind] = useState<SourceKind>('simulated');
+  const source = useMemo(() => createSource(sourceKind), [sourceKind]);
+  
+  return (
+    <StreamProvider config={STREAM_CONFIG} source={source}>
+      <Dashboard source={source} sourceKind={sourceKind} onSourceKindChange={setSourceKind} />
+    </StreamProvider>
+  );
+};
+
+interface DashboardProps {
+  source: DataSource;
+  sourceKind: SourceKind;
+  onSourceKindChange: (kind: SourceKind) => void;
+}
+
+/**
+ * Page body; reads the pipeline from the surrounding StreamProvider
+ * Stats are left to the widgets that show them, so a flush doesn't
+ * re-render the page.
+ */
+function Dashboard({ source, sourceKind, onSourceKindChange }: DashboardProps) {
   const {
-    tickers,
-    stats,
     config,
     isRunning,
-    isWorkerReady,
-    start,
-    stop,
-    updateConfig,
-    resetStats
-  } = useDataStream({
-    updatesPerSecond: 100,
-    bufferIntervalMs: 50,
-    throttleThreshold: 500
-  });
+    isSourceReady,
+    connectionState,
+    reconnectAttempt,
+    sourceError,
+    pinnedSymbols,
+    replayProgress,
+    transportStats,
+    faultStats,
+    quarantined,
+    supportsTransport,
+    supportsDelivery,
+    supportsFaults
+  } = useStream();
+  const { stall, setVisibleSymbols, togglePin, updateConfig, clearQuarantine } = useStreamControls();
+  
+  const isConnecting = connectionState === 'connecting' || connectionState === 'reconnecting';
 
   return (
     <div className="min-h-screen bg-background p-4 md:p-6">
@@ -58,36 +106,112 @@ const Index = () => {
             </div>
           </div>
           
-          <div className="flex items-center gap-2">
-            <span className={`pulse-indicator ${isRunning ? 'pulse-indicator-active' : 'pulse-indicator-throttled'}`} />
-            <span className="text-sm text-muted-foreground">
-              {isRunning ? 'Streaming' : isWorkerReady ? 'Ready' : 'Initializing...'}
-            </span>
+          <div className="flex items-center gap-4">
+            <MarketBreadth />
+            
+            <Select value={sourceKind} onValueChange={(value) => onSourceKindChange(value as SourceKind)}>
+              <SelectTrigger className="h-8 w-44 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(SOURCE_LABELS) as SourceKind[]).map(kind => (
+                  <SelectItem key={kind} value={kind} className="text-xs">
+                    {SOURCE_LABELS[kind]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            
+            <div className="flex items-center gap-2">
+              <span className={`pulse-indicator ${
+                isRunning
+                  ? 'pulse-indicator-active'
+                  : isConnecting ? 'pulse-indicator-connecting' : 'pulse-indicator-throttled'
+              }`} />
+              <span className="text-sm text-muted-foreground">
+                {getStatusLabel(connectionState, reconnectAttempt, isRunning, isSourceReady)}
+              </span>
+            </div>
           </div>
         </header>
         
+        {/* Source errors stay visible until the source reports ready again */}
+        {sourceError && (
+          <div className="flex items-center gap-2 px-3 py-2 rounded-lg border border-destructive/40 bg-destructive/10 text-sm text-destructive">
+            <AlertTriangle className="w-4 h-4 shrink-0" />
+            <span>{sourceError.message}</span>
+          </div>
+        )}
+        
         {/* Stats Dashboard */}
         <section>
-          <StatsCard stats={stats} />
+          <StatsCard />
         </section>
         
         {/* Control Panel */}
         <section>
-          <ControlPanel
-            config={config}
-            isRunning={isRunning}
-            onConfigChange={updateConfig}
-            onStart={start}
-            onStop={stop}
-            onReset={resetStats}
+          <ControlPanel />
+        </section>
+        
+        {/* Replay Controls (recording source only) */}
+        {source instanceof ReplaySource && (
+          <section>
+            <ReplayControls source={source} progress={replayProgress} />
+          </section>
+        )}
+        
+        {/* Worker transport (simulator only) */}
+        {supportsTransport && (
+          <section>
+            <TransportPanel
+              mode={config.transport}
+              stats={transportStats}
+              onModeChange={(transport) => updateConfig({ transport })}
+              delivery={config.delivery}
+              supportsDelivery={supportsDelivery}
+              onDeliveryChange={(delivery) => updateConfig({ delivery })}
+            />
+          </section>
+        )}
+        
+        {/* Fault Injection (simulator only) */}
+        {supportsFaults && (
+          <section>
+            <FaultPanel
+              faults={config.faults}
+              stats={faultStats}
+              onChange={(faults) => updateConfig({ faults })}
+              onStall={stall}
+            />
+          </section>
+        )}
+        
+        {/* Message Validation */}
+        <section>
+          <ValidationPanel
+            sampleRate={config.validationSampleRate}
+            entries={quarantined}
+            onSampleRateChange={(validationSampleRate) => updateConfig({ validationSampleRate })}
+            onClear={clearQuarantine}
+          />
+        </section>
+        
+        {/* Symbol Render Policies */}
+        <section>
+          <SymbolPolicyPanel
+            policy={config.symbolPolicy}
+            overrides={config.symbolPolicies}
+            onChange={updateConfig}
           />
         </section>
         
         {/* Ticker Table */}
         <section className="h-[calc(100vh-380px)] min-h-[400px]">
           <TickerTable 
-            tickers={tickers} 
             rowHeight={config.rowHeight}
+            pinnedSymbols={pinnedSymbols}
+            onTogglePin={togglePin}
+            onVisibleSymbolsChange={setVisibleSymbols}
           />
         </section>
         
@@ -117,7 +241,28 @@ const Index = () => {
       </div>
     </div>
   );
-};
+}
+
+/**
+ * Header status text, combining transport state with stream state
+ */
+function getStatusLabel(
+  connectionState: ConnectionState,
+  reconnectAttempt: number,
+  isRunning: boolean,
+  isSourceReady: boolean
+) {
+  switch (connectionState) {
+    case 'connecting':
+      return 'Connecting...';
+    case 'reconnecting':
+      return `Reconnecting (attempt ${reconnectAttempt})...`;
+    case 'closed':
+      return 'Disconnected';
+    case 'open':
+      return isRunning ? 'Streaming' : isSourceReady ? 'Ready' : 'Initializing...';
+  }
+}
 
 interface ConceptCardProps {
   title: string;
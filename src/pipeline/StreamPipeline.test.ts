@@ -0,0 +1,233 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { DataSourceEvent, SourceConfig, StreamStats, TickerUpdate } from '@/types/ticker';
+import { PROTOCOL_VERSION } from '@/lib/protocol';
+import { BaseDataSource } from '@/sources/DataSource';
+import { DEFAULT_STREAM_CONFIG, StreamPipeline } from './StreamPipeline';
+import { VirtualClock } from './scheduler';
+
+/**
+ * Runs the pipeline under Node on a VirtualClock: no browser, no worker,
+ * no real time. The source is driven by hand.
+ */
+
+class ManualSource extends BaseDataSource {
+  readonly kind = 'manual';
+  configs: SourceConfig[] = [];
+  symbolRequests = 0;
+  resyncs: string[][] = [];
+  pulls: (string[] | null)[] = [];
+  creditWindows: [number, number][] = [];
+  grants: number[] = [];
+
+  connect() {}
+  disconnect() {}
+  start() {}
+  stop() {}
+  configure(config: SourceConfig) {
+    this.configs.push(config);
+  }
+
+  requestSymbols() {
+    this.symbolRequests++;
+  }
+
+  resync(symbols: string[]) {
+    this.resyncs.push(symbols);
+  }
+
+  pull(symbols?: string[]) {
+    this.pulls.push(symbols ?? null);
+  }
+
+  setCreditWindow(window: number, epoch: number) {
+    this.creditWindows.push([window, epoch]);
+  }
+
+  grantCredits(credits: number) {
+    this.grants.push(credits);
+  }
+
+  send(event: DataSourceEvent) {
+    this.emit(event);
+  }
+}
+
+function update(symbol: string, seq: number, price: number): TickerUpdate {
+  return { symbol, price, change: 0, volume: 1000, timestamp: 0, id: `${symbol}-${seq}`, seq };
+}
+
+const EPOCH = 1_700_000_000_000;
+
+describe('StreamPipeline on a VirtualClock', () => {
+  let clock: VirtualClock;
+  let pipeline: StreamPipeline;
+  let source: ManualSource;
+  let stats: StreamStats | null;
+
+  beforeEach(() => {
+    clock = new VirtualClock(16, EPOCH);
+    pipeline = new StreamPipeline(
+      { ...DEFAULT_STREAM_CONFIG, seed: 1, bufferIntervalMs: 50 },
+      { clock, scheduler: clock }
+    );
+    source = new ManualSource();
+    stats = null;
+    pipeline.subscribe(event => {
+      if (event.type === 'stats') stats = event.stats;
+    });
+    pipeline.connect(source);
+
+    source.send({ type: 'ready', protocolVersion: PROTOCOL_VERSION });
+    source.send({ type: 'symbols', data: [update('AAPL', 0, 100), update('MSFT', 0, 200)] });
+    source.send({ type: 'status', running: true });
+  });
+
+  it('holds updates in the buffer until the interval is up', () => {
+    source.send({ type: 'updates', data: [update('AAPL', 1, 101)], timestamp: EPOCH });
+
+    clock.advance(40);
+    expect(pipeline.store.getTicker('AAPL').price).toBe(100);
+
+    clock.advance(40);
+    const ticker = pipeline.store.getTicker('AAPL');
+    expect(ticker.price).toBe(101);
+    expect(ticker.previousPrice).toBe(100);
+    expect(ticker.flashDirection).toBe('up');
+    expect(ticker.lastUpdated).toBe(EPOCH + 64);
+  });
+
+  it('coalesces per symbol and reports it in the stats', () => {
+    source.send({
+      type: 'updates',
+      data: [update('AAPL', 1, 101), update('AAPL', 2, 102), update('MSFT', 1, 199)],
+      timestamp: EPOCH
+    });
+
+    clock.advance(1000);
+    expect(pipeline.store.getTicker('AAPL').price).toBe(102);
+    expect(pipeline.store.getTicker('MSFT').price).toBe(199);
+    expect(stats).toMatchObject({
+      totalReceived: 3,
+      totalRendered: 2,
+      coalesced: 1,
+      updatesPerSecond: 3
+    });
+  });
+
+  it('clears flashes once they have played', () => {
+    source.send({ type: 'updates', data: [update('MSFT', 1, 150)], timestamp: EPOCH });
+    clock.advance(100);
+    expect(pipeline.store.getTicker('MSFT').flashDirection).toBe('down');
+
+    clock.advance(1000);
+    expect(pipeline.store.getTicker('MSFT').flashDirection).toBeNull();
+  });
+
+  it('rejects stale updates and resyncs on a gap', () => {
+    source.send({ type: 'updates', data: [update('AAPL', 3, 103)], timestamp: EPOCH });
+    source.send({ type: 'updates', data: [update('AAPL', 2, 102)], timestamp: EPOCH });
+    expect(source.resyncs).toEqual([['AAPL']]);
+
+    clock.advance(1000);
+    expect(pipeline.store.getTicker('AAPL').price).toBe(103);
+    expect(stats).toMatchObject({ totalReceived: 2, rejected: 1, gaps: 1 });
+  });
+
+  it('quarantines malformed messages', () => {
+    source.send({
+      type: 'updates',
+      data: [{ ...update('AAPL', 1, 101), price: Number.NaN }],
+      timestamp: EPOCH
+    });
+
+    clock.advance(1000);
+    expect(pipeline.store.getTicker('AAPL').price).toBe(100);
+    expect(stats).toMatchObject({ totalReceived: 0, quarantined: 1 });
+    expect(pipeline.quarantined[0].type).toBe('updates');
+  });
+
+  it('pulls the lane symbols every frame with pull delivery', () => {
+    pipeline.configure({ delivery: 'pull' });
+    pipeline.setVisibleSymbols(['AAPL']);
+    pipeline.setPinnedSymbols(new Set(['MSFT', 'AAPL']));
+
+    source.pulls = [];
+    clock.advance(64);
+    // Frames at 16, 32 and 48 pull the lanes; at 64 the interval is up
+    expect(source.pulls).toEqual([['AAPL', 'MSFT'], ['AAPL', 'MSFT'], ['AAPL', 'MSFT'], null]);
+  });
+
+  it('only counts credits once the source confirms the window', () => {
+    pipeline.configure({ creditWindow: 10 });
+    const [window, epoch] = source.creditWindows[source.creditWindows.length - 1];
+    expect(window).toBe(10);
+
+    // Spent from the previous window, still on its way
+    source.send({
+      type: 'updates',
+      data: [update('AAPL', 1, 101), update('MSFT', 1, 199)],
+      timestamp: EPOCH
+    });
+    // A stale echo changes nothing
+    source.send({ type: 'creditsUpdated', epoch: epoch - 1 });
+    source.send({ type: 'updates', data: [update('AAPL', 2, 102)], timestamp: EPOCH });
+    clock.advance(100);
+    expect(source.grants).toEqual([]);
+
+    source.send({ type: 'creditsUpdated', epoch });
+    source.send({
+      type: 'updates',
+      data: [update('AAPL', 3, 103), update('MSFT', 2, 198)],
+      timestamp: EPOCH
+    });
+    clock.advance(1000);
+    expect(source.grants).toEqual([2]);
+    expect(stats.credits).toEqual({ window: 10, granted: 12, outstanding: 10 });
+  });
+
+  it('sets a resumed source up only once', () => {
+    expect(source.configs).toHaveLength(2);
+    expect(source.configs[1]).toEqual({ seed: 1, universeSize: DEFAULT_STREAM_CONFIG.universeSize });
+    expect(source.symbolRequests).toBe(1);
+
+    source.send({ type: 'ready', protocolVersion: PROTOCOL_VERSION, resumed: true });
+    expect(source.configs).toHaveLength(2);
+    expect(source.symbolRequests).toBe(1);
+
+    // A fresh connection lost its simulation: seed it again
+    source.send({ type: 'ready', protocolVersion: PROTOCOL_VERSION });
+    expect(source.configs).toHaveLength(4);
+    expect(source.symbolRequests).toBe(2);
+  });
+
+  it('runs identically twice', () => {
+    const run = () => {
+      const runClock = new VirtualClock(16, EPOCH);
+      const runPipeline = new StreamPipeline(
+        { ...DEFAULT_STREAM_CONFIG, seed: 1, throttleThreshold: 4 },
+        { clock: runClock, scheduler: runClock }
+      );
+      const runSource = new ManualSource();
+      const flushes: string[] = [];
+      runPipeline.subscribe(event => {
+        if (event.type === 'flush') flushes.push(`${runClock.now()}:${event.bufferSize}:${event.isThrottling}`);
+      });
+      runPipeline.connect(runSource);
+      runSource.send({ type: 'ready', protocolVersion: PROTOCOL_VERSION });
+      runSource.send({ type: 'status', running: true });
+      for (let tick = 1; tick <= 50; tick++) {
+        runSource.send({
+          type: 'updates',
+          data: ['A', 'B', 'C', 'D', 'E', 'F'].map(symbol => update(symbol, tick, tick)),
+          timestamp: EPOCH
+        });
+        runClock.advance(10);
+      }
+      return flushes;
+    };
+
+    const first = run();
+    expect(first.length).toBeGreaterThan(0);
+    expect(run()).toEqual(first);
+  });
+});
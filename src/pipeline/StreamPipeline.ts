@@ -0,0 +1,863 @@
+import type {
+  DataSourceEvent,
+  StreamConfig,
+  StreamStats,
+  TickerState,
+  TickerUpdate
+} from '@/types/ticker';
+import type { DataSource } from '@/sources/DataSource';
+import { AdaptiveBatcher, type BatchingState } from '@/lib/adaptiveBatching';
+import { NO_FAULTS } from '@/lib/faults';
+import { MessageValidator, type QuarantinedMessage } from '@/lib/messageValidation';
+import { checkProtocolVersion } from '@/lib/protocol';
+import { SequenceGuard } from '@/lib/sequencing';
+import { NO_SYMBOL_POLICY, SymbolFilter } from '@/lib/symbolPolicy';
+import { createThrottleStrategy, type ThrottleStrategy } from '@/lib/throttle';
+import { TickerStore } from '@/lib/tickerStore';
+import { UpdateBuffer } from '@/lib/updateBuffer';
+import type { Cancel, Clock, Scheduler } from './scheduler';
+
+/**
+ * Stream Pipeline
+ *
+ * The buffering, coalescing, backpressure and stats logic, as a plain
+ * class with no React in it. useDataStream is a thin adapter over it;
+ * anything else (a test under Node, a second UI) can drive it directly.
+ *
+ *   source -> validation -> sequence guard -> ingest stages -> UpdateBuffer
+ *          -> flush loop -> flush stages -> TickerStore -> subscribers
+ *
+ * 0. VALIDATION: messages from the source are checked against the
+ *    protocol schemas (batches by sample, see lib/messageValidation.ts);
+ *    invalid ones are quarantined and never reach the rest
+ * 1. INGEST: stale and duplicate updates are rejected by per-symbol
+ *    sequence number, and a gap asks the source for a snapshot of the
+ *    symbol (resync). The rest pass the ingest stages, then go into the bounded,
+ *    coalescing buffer, which merges them per symbol by the coalescing
+ *    strategy; a full buffer drops, evicts or pauses the source
+ *    according to the overflow policy
+ * 2. FLUSH LOOP: every interval (fixed, or tuned by adaptive batching)
+ *    the throttle strategy decides whether to flush or let the buffer
+ *    keep coalescing. Priority lanes flush visible and pinned symbols
+ *    every frame regardless
+ * 3. FLUSH STAGES: filters such as symbol render policies; whatever
+ *    they leave out is counted as filtered. A stage may hold updates
+ *    back and release them on a later frame (due())
+ * 4. STORE: rows are patched and committed once per flush, notifying
+ *    only the subscribers of symbols that changed
+ *
+ * Stages compose: pass extra ones in the options or add them with
+ * addStage(). Time comes only from the injected Clock and Scheduler, so
+ * on a VirtualClock the pipeline runs deterministically outside the
+ * browser.
+ *
+ * Events (subscribe()):
+ * - 'source':  every event from the connected source, as received
+ * - 'flush':   buffer pressure after each flush or throttled skip
+ * - 'stats':   statistics, once a second and after resetStats()
+ */
+
+export interface StageContext {
+  now: number; // Clock.now()
+  getTicker(symbol: string): TickerState | undefined; // Row currently rendered
+}
+
+export interface PipelineStage {
+  readonly name: string;
+  // Return the updates to pass on; the rest count as filtered
+  process(updates: TickerUpdate[], context: StageContext): TickerUpdate[];
+  // Called when the source sends a fresh snapshot
+  reset?(): void;
+  // Flush stages only: updates held back by an earlier process() call
+  // that should render now, whether or not anything else flushes
+  due?(context: StageContext): TickerUpdate[];
+}
+
+export type StagePhase = 'ingest' | 'flush';
+
+export interface FlushEvent {
+  bufferSize: number;
+  isThrottling: boolean;
+  throttleLevel: number;
+}
+
+export type PipelineEvent =
+  | { type: 'source'; event: DataSourceEvent }
+  | ({ type: 'flush' } & FlushEvent)
+  | { type: 'stats'; stats: StreamStats; batching: BatchingState | null };
+
+export type PipelineListener = (event: PipelineEvent) => void;
+
+export interface StreamPipelineOptions {
+  clock: Clock;
+  scheduler: Scheduler;
+  ingestStages?: PipelineStage[];
+  flushStages?: PipelineStage[]; // Run after the symbol policy stage
+}
+
+// Defaults for everything except the seed, which callers pick
+export const DEFAULT_STREAM_CONFIG: Omit<StreamConfig, 'seed'> = {
+  updatesPerSecond: 100,
+  bufferIntervalMs: 50,
+  adaptiveBatching: false,
+  frameBudgetMs: 8,
+  priorityLanes: true,
+  symbolPolicy: NO_SYMBOL_POLICY,
+  symbolPolicies: {},
+  bufferCapacity: 1000,
+  overflowPolicy: 'drop-oldest',
+  coalescing: 'latest',
+  throttleThreshold: 500,
+  throttleStrategy: 'token-bucket',
+  windowSize: 20,
+  rowHeight: 48,
+  burstEnabled: false,
+  priceModel: 'gbm',
+  universeSize: 100,
+  transport: 'clone',
+  delivery: 'push',
+  creditWindow: 0,
+  faults: NO_FAULTS,
+  validationSampleRate: 1
+};
+
+// Events sources raise themselves; everything else came over the wire
+const LOCAL_EVENTS: ReadonlySet<DataSourceEvent['type']> = new Set([
+  'connection',
+  'replay',
+  'transport',
+  'error'
+]);
+
+const STATS_INTERVAL_MS = 1000;
+const FLASH_CHECK_MS = 200;
+const FLASH_DURATION_MS = 600;
+
+function emptyCounters() {
+  return {
+    received: 0,
+    rendered: 0,
+    dropped: 0,
+    coalesced: 0,
+    workerCoalesced: 0,
+    filtered: 0,
+    rejected: 0,
+    duplicates: 0,
+    gaps: 0,
+    validated: 0,
+    quarantined: 0
+  };
+}
+
+export class StreamPipeline {
+  readonly store = new TickerStore();
+
+  private config: StreamConfig;
+  private readonly clock: Clock;
+  private readonly scheduler: Scheduler;
+  private readonly buffer: UpdateBuffer;
+  private readonly symbolFilter: SymbolFilter;
+  private readonly sequence = new SequenceGuard();
+  private readonly validator: MessageValidator;
+  private readonly stages: Record<StagePhase, PipelineStage[]>;
+  private throttle: ThrottleStrategy;
+  private batcher: AdaptiveBatcher | null = null;
+  private listeners = new Set<PipelineListener>();
+
+  private source: DataSource | null = null;
+  private sourceReady = false;
+  private running = false;
+  // Source paused by the pause-source overflow policy
+  private sourcePaused = false;
+
+  private counters = emptyCounters();
+  private receivedInWindow = 0;
+  // Credit accounting since the window was last (re)set; receipts only
+  // count once the source confirms the window's epoch is in force
+  private credits = { window: 0, granted: 0, received: 0, epoch: 0, inForce: false };
+  private lastFlush = 0;
+  private pressure: FlushEvent = { bufferSize: 0, isThrottling: false, throttleLevel: 0 };
+
+  // Priority lane: rows on screen, plus the user's pins
+  private visibleSymbols: readonly string[] = [];
+  private pinnedSymbols: ReadonlySet<string> = new Set();
+  // Symbols currently showing a flash animation
+  private flashing = new Set<string>();
+
+  private cancelLoop: Cancel | null = null;
+  private cancelTimers: Cancel[] = [];
+
+  constructor(config: StreamConfig, options: StreamPipelineOptions) {
+    this.config = config;
+    this.clock = options.clock;
+    this.scheduler = options.scheduler;
+    this.buffer = new UpdateBuffer(config.bufferCapacity, config.overflowPolicy, config.coalescing);
+    this.symbolFilter = new SymbolFilter(config.symbolPolicy, config.symbolPolicies);
+    this.validator = new MessageValidator(config.validationSampleRate);
+    this.throttle = createThrottleStrategy(config.throttleStrategy);
+    this.batcher = this.createBatcher();
+    this.stages = {
+      ingest: [...(options.ingestStages ?? [])],
+      flush: [this.symbolFilter, ...(options.flushStages ?? [])]
+    };
+  }
+
+  getConfig(): StreamConfig {
+    return this.config;
+  }
+
+  get isRunning() {
+    return this.running;
+  }
+
+  get batching(): BatchingState | null {
+    return this.batcher?.getState() ?? null;
+  }
+
+  // Messages that failed validation, newest first
+  get quarantined(): readonly QuarantinedMessage[] {
+    return this.validator.entries;
+  }
+
+  subscribe(listener: PipelineListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  addStage(phase: StagePhase, stage: PipelineStage) {
+    this.stages[phase].push(stage);
+  }
+
+  /**
+   * Connect a source and start the stats and flash timers
+   * Returns a function that disconnects it again
+   */
+  connect(source: DataSource): () => void {
+    this.disconnect();
+    this.source = source;
+    const unsubscribe = source.subscribe(this.handleSourceEvent);
+    source.connect();
+    this.startTimers();
+
+    return () => {
+      unsubscribe();
+      if (this.source === source) this.disconnect();
+    };
+  }
+
+  disconnect() {
+    const source = this.source;
+    if (!source) return;
+
+    this.source = null;
+    source.disconnect();
+    this.sourceReady = false;
+    this.sourcePaused = false;
+    this.setRunning(false);
+    this.cancelTimers.forEach(cancel => cancel());
+    this.cancelTimers = [];
+  }
+
+  start() {
+    this.source?.start();
+  }
+
+  stop() {
+    this.source?.stop();
+  }
+
+  /**
+   * Apply config changes, forwarding source settings once it's ready
+   */
+  configure(updates: Partial<StreamConfig>) {
+    const previous = this.config;
+    const next = { ...previous, ...updates };
+    this.config = next;
+    const changed = (key: keyof StreamConfig) => previous[key] !== next[key];
+
+    if (changed('throttleStrategy')) {
+      this.throttle = createThrottleStrategy(next.throttleStrategy);
+    }
+    // Adaptive batching starts from the fixed interval each time it's enabled
+    if (changed('adaptiveBatching')) {
+      this.batcher = this.createBatcher();
+    } else if (changed('frameBudgetMs')) {
+      this.batcher?.setBudget(next.frameBudgetMs);
+    }
+    if (changed('bufferCapacity') || changed('overflowPolicy')) {
+      this.applyBufferLimits();
+    }
+    if (changed('coalescing')) {
+      this.buffer.setCoalescing(next.coalescing);
+    }
+    if (changed('symbolPolicy') || changed('symbolPolicies')) {
+      this.symbolFilter.configure(next.symbolPolicy, next.symbolPolicies);
+    }
+    if (changed('validationSampleRate')) {
+      this.validator.setSampleRate(next.validationSampleRate);
+    }
+
+    if (!this.sourceReady) return;
+    if (changed('updatesPerSecond') || changed('burstEnabled') || changed('priceModel')) {
+      this.configureSource();
+    }
+    if (changed('transport')) {
+      this.source?.setTransport?.(next.transport);
+    }
+    if (changed('delivery')) {
+      this.source?.setDelivery?.(next.delivery);
+    }
+    if (changed('creditWindow')) {
+      this.applyCreditWindow();
+    }
+    if (changed('faults')) {
+      this.source?.setFaults?.(next.faults);
+    }
+    if (changed('seed') || changed('universeSize')) {
+      this.reseed();
+    }
+  }
+
+  /**
+   * Seeding or resizing the universe restarts the simulation,
+   * so refresh the symbol snapshot too
+   */
+  reseed() {
+    this.source?.configure({
+      seed: this.config.seed,
+      universeSize: this.config.universeSize
+    });
+    this.source?.requestSymbols();
+  }
+
+  /**
+   * Hold the source's deliveries back for a while (fault injection)
+   */
+  stallSource(durationMs: number) {
+    this.source?.stall?.(durationMs);
+  }
+
+  setVisibleSymbols(symbols: readonly string[]) {
+    this.visibleSymbols = symbols;
+  }
+
+  setPinnedSymbols(symbols: ReadonlySet<string>) {
+    this.pinnedSymbols = symbols;
+  }
+
+  clearQuarantine() {
+    this.validator.clear();
+  }
+
+  resetStats() {
+    this.counters = emptyCounters();
+    this.receivedInWindow = 0;
+    this.pressure = { bufferSize: 0, isThrottling: false, throttleLevel: 0 };
+    this.emit({
+      type: 'stats',
+      stats: {
+        totalReceived: 0,
+        totalRendered: 0,
+        bufferSize: 0,
+        dropped: 0,
+        coalesced: 0,
+        workerCoalesced: 0,
+        updatesPerSecond: 0,
+        isThrottling: false,
+        throttleLevel: 0,
+        credits: null,
+        filtered: 0,
+        rejected: 0,
+        duplicates: 0,
+        gaps: 0,
+        validated: 0,
+        quarantined: 0
+      },
+      batching: this.batching
+    });
+  }
+
+  /**
+   * Feed updates in directly, as if the source had sent them
+   */
+  ingest(updates: TickerUpdate[]) {
+    this.addToBuffer(updates);
+  }
+
+  private handleSourceEvent = (event: DataSourceEvent) => {
+    if (!LOCAL_EVENTS.has(event.type) && !this.validate(event)) return;
+
+    switch (event.type) {
+      case 'ready': {
+        // Handshake: a source on another protocol version would be misread
+        const mismatch = checkProtocolVersion(event.protocolVersion);
+        if (mismatch) {
+          this.emit({ type: 'source', event: { type: 'error', error: mismatch } });
+          return;
+        }
+        // A source that resumed (SSE Last-Event-ID) kept its simulation
+        // and replays what was missed; setting it up again would restart
+        // it. The first ready after connect() always sets it up.
+        const resumed = event.resumed === true && this.sourceReady;
+        this.sourceReady = true;
+        // A reconnected source starts without flow control; set it again
+        this.applyCreditWindow();
+        if (resumed) break;
+        this.configureSource();
+        this.source?.setTransport?.(this.config.transport);
+        this.source?.setDelivery?.(this.config.delivery);
+        this.source?.setFaults?.(this.config.faults);
+        this.reseed();
+        break;
+      }
+
+      case 'status':
+        this.setRunning(event.running);
+        break;
+
+      case 'updates':
+        // Add incoming updates to buffer (coalescing happens here)
+        this.addToBuffer(event.data);
+        break;
+
+      case 'workerCoalesced':
+        this.counters.workerCoalesced += event.count;
+        break;
+
+      case 'creditsUpdated':
+        // Older epochs were superseded before the source got to them
+        if (event.epoch === this.credits.epoch) {
+          this.credits.inForce = true;
+        }
+        break;
+
+      case 'symbols': {
+        // Initialize tickers with initial data (the store sorts them once)
+        const lastUpdated = this.clock.wallTime();
+        this.store.reset(event.data.map(ticker => ({ ...ticker, lastUpdated, flashDirection: null })));
+        this.flashing.clear();
+        this.sequence.reset(event.data);
+        this.stages.ingest.forEach(stage => stage.reset?.());
+        this.stages.flush.forEach(stage => stage.reset?.());
+        break;
+      }
+
+      case 'snapshot':
+        // Resync after a gap: rows newer than what arrived since then are
+        // rendered like any other update
+        this.enqueue(this.sequence.applySnapshot(event.data));
+        break;
+    }
+
+    this.emit({ type: 'source', event });
+  };
+
+  /**
+   * Check a message from the wire; false means it was quarantined
+   */
+  private validate(event: DataSourceEvent) {
+    const result = this.validator.check(event, this.clock.wallTime());
+    if (result !== 'unchecked') {
+      this.counters.validated++;
+    }
+    if (result !== 'invalid') return true;
+
+    this.counters.quarantined++;
+    // The batch was still consumed from the source, so its credits come back
+    if (event.type === 'updates' && Array.isArray(event.data)) {
+      this.receiveCredits(event.data.length);
+    }
+    return false;
+  }
+
+  private emit(event: PipelineEvent) {
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  private createBatcher() {
+    return this.config.adaptiveBatching
+      ? new AdaptiveBatcher(this.config.frameBudgetMs, this.config.bufferIntervalMs)
+      : null;
+  }
+
+  private configureSource() {
+    this.source?.configure({
+      updatesPerSecond: this.config.updatesPerSecond,
+      burstEnabled: this.config.burstEnabled,
+      priceModel: this.config.priceModel
+    });
+  }
+
+  /**
+   * Apply buffer limits
+   * Sources that can't pause fall back to drop-newest under pause-source
+   */
+  private applyBufferLimits() {
+    const policy = this.config.overflowPolicy === 'pause-source' && !this.source?.pause
+      ? 'drop-newest'
+      : this.config.overflowPolicy;
+    this.buffer.configure(this.config.bufferCapacity, policy);
+
+    if (policy !== 'pause-source' && this.sourcePaused) {
+      this.sourcePaused = false;
+      this.source?.resume?.();
+    }
+  }
+
+  /**
+   * (Re)start credit flow control with a full window, or turn it off
+   * Safe to call on every 'ready'. Updates already on their way were
+   * spent from the previous window, so until the source echoes the new
+   * epoch they don't count towards this one (counting them would grant
+   * their credits a second time).
+   */
+  private applyCreditWindow() {
+    const source = this.source;
+    const size = source?.setCreditWindow ? this.config.creditWindow : 0;
+    const epoch = this.credits.epoch + 1;
+    this.credits = { window: size, granted: size, received: 0, epoch, inForce: false };
+    source?.setCreditWindow?.(size, epoch);
+  }
+
+  // Updates consumed from the source, as far as the current window goes
+  private receiveCredits(count: number) {
+    if (this.credits.inForce) {
+      this.credits.received += count;
+    }
+  }
+
+  private stageContext(): StageContext {
+    return { now: this.clock.now(), getTicker: this.store.getTicker };
+  }
+
+  private runStages(phase: StagePhase, updates: TickerUpdate[]) {
+    const stages = this.stages[phase];
+    if (stages.length === 0 || updates.length === 0) return updates;
+
+    const context = this.stageContext();
+    let passed = updates;
+    for (const stage of stages) {
+      passed = stage.process(passed, context);
+    }
+    this.counters.filtered += updates.length - passed.length;
+    return passed;
+  }
+
+  /**
+   * COALESCING IMPLEMENTATION
+   *
+   * When an update arrives, we check if we already have a pending update
+   * for this symbol in the buffer. If so, we replace it (keeping only latest).
+   * This is the core of coalescing - dropping redundant intermediate updates.
+   * A new symbol arriving at a full buffer is handled by the overflow policy.
+   */
+  private addToBuffer(received: TickerUpdate[]) {
+    // Everything received was consumed from the source, filtered or not
+    this.counters.received += received.length;
+    this.receiveCredits(received.length);
+    this.receivedInWindow += received.length;
+
+    const { accepted, rejected, duplicates, gaps } = this.sequence.check(received);
+    this.counters.rejected += rejected;
+    this.counters.duplicates += duplicates;
+    this.counters.gaps += gaps.length;
+    if (gaps.length > 0) {
+      this.source?.resync?.(gaps);
+    }
+
+    this.enqueue(this.runStages('ingest', accepted));
+  }
+
+  // Buffer updates that made it through ingest (or a resync snapshot)
+  private enqueue(updates: TickerUpdate[]) {
+    let coalescedCount = 0;
+    let droppedCount = 0;
+
+    updates.forEach(update => {
+      switch (this.buffer.add(update)) {
+        case 'coalesced':
+          // This update replaces an existing one = coalesced
+          coalescedCount++;
+          break;
+        case 'evicted':
+        case 'rejected':
+          droppedCount++;
+          break;
+      }
+    });
+
+    // pause-source: hold the source off until the next flush empties the buffer
+    if (this.buffer.isFull && this.config.overflowPolicy === 'pause-source' && !this.sourcePaused) {
+      this.sourcePaused = true;
+      this.source?.pause?.();
+    }
+
+    this.counters.coalesced += coalescedCount;
+    this.counters.dropped += droppedCount;
+  }
+
+  /**
+   * Patch rows for a batch of updates and commit them to the store once
+   * Only rows whose symbol changed re-render. Returns how many rows were
+   * rendered.
+   */
+  private applyUpdates(drained: TickerUpdate[]) {
+    const updates = this.runStages('flush', drained).concat(this.releaseDue());
+    const lastUpdated = this.clock.wallTime();
+
+    updates.forEach(update => {
+      const existing = this.store.getTicker(update.symbol);
+      const previousPrice = existing?.price ?? update.price;
+
+      // Determine flash direction for UI feedback
+      let flashDirection: 'up' | 'down' | null = null;
+      if (update.price > previousPrice) {
+        flashDirection = 'up';
+      } else if (update.price < previousPrice) {
+        flashDirection = 'down';
+      }
+
+      // Spreading keeps the buffer's merge metadata (`coalesced`), if any
+      this.store.set({
+        ...update,
+        previousPrice,
+        flashDirection,
+        lastUpdated
+      });
+
+      if (flashDirection) {
+        this.flashing.add(update.symbol);
+      }
+    });
+
+    this.counters.rendered += updates.length;
+    if (updates.length > 0) {
+      this.store.commit();
+    }
+    return updates.length;
+  }
+
+  // Held-back updates the flush stages release this frame
+  private releaseDue() {
+    const context = this.stageContext();
+    return this.stages.flush.flatMap(stage => stage.due?.(context) ?? []);
+  }
+
+  private setRunning(running: boolean) {
+    if (running === this.running) return;
+    this.running = running;
+
+    if (running) {
+      this.flush();
+    } else {
+      this.cancelLoop?.();
+      this.cancelLoop = null;
+    }
+  }
+
+  // With lanes the loop runs every frame, otherwise once per interval
+  private scheduleNext(delayMs: number) {
+    this.cancelLoop = this.scheduler.frame(() => {
+      if (this.config.priorityLanes) {
+        this.flush();
+      } else {
+        this.cancelLoop = this.scheduler.delay(() => this.flush(), delayMs);
+      }
+    });
+  }
+
+  private reportPressure(pressure: FlushEvent) {
+    this.pressure = pressure;
+    this.emit({ type: 'flush', ...pressure });
+  }
+
+  /**
+   * BUFFERING + BACKPRESSURE IMPLEMENTATION
+   *
+   * This function flushes the buffer to the store, applying:
+   * - Batching: all buffered updates applied in one commit
+   * - Backpressure: the throttle strategy may skip flush cycles
+   * - Priority lanes: visible and pinned symbols skip the interval and
+   *   the throttle and go out every frame; everything else waits for the
+   *   next interval flush and keeps coalescing until then
+   */
+  private flush() {
+    if (!this.running) return;
+    const { config, buffer, batcher } = this;
+
+    // Sources that buffer locally (shared ring) hand their updates over here
+    this.source?.drain?.();
+
+    const now = this.clock.now();
+    const intervalMs = batcher ? batcher.intervalMs : config.bufferIntervalMs;
+
+    // Priority lane: a few dozen symbols, taken straight out of the buffer
+    const priority = config.priorityLanes
+      ? [...buffer.take(this.visibleSymbols), ...buffer.take(this.pinnedSymbols)]
+      : [];
+    const bufferSize = buffer.size;
+
+    // Only flush the rest if enough time has passed (buffer interval)
+    if (now - this.lastFlush < intervalMs) {
+      // A pull-mode source holds everything until asked, so the lane
+      // symbols are pulled every frame; they arrive for the next one
+      if (config.priorityLanes && config.delivery === 'pull') {
+        this.pullLanes();
+      }
+      // Lanes, plus whatever the flush stages release this frame
+      this.applyUpdates(priority);
+      this.scheduleNext(intervalMs - (now - this.lastFlush));
+      return;
+    }
+
+    // Ask a pull-mode source for its coalesced snapshot; it lands in the
+    // buffer asynchronously and goes out with the next flush
+    if (config.delivery === 'pull') {
+      this.source?.pull?.();
+    }
+
+    // Nothing else to flush
+    if (bufferSize === 0) {
+      this.applyUpdates(priority);
+      this.scheduleNext(intervalMs);
+      return;
+    }
+
+    /**
+     * BACKPRESSURE: Throttle strategy
+     * The strategy decides whether to flush now or skip this cycle and let
+     * the buffer keep coalescing. Decisions are deterministic given `now`.
+     */
+    const { flush, level: throttleLevel } = this.throttle.decide({
+      now,
+      bufferSize,
+      threshold: config.throttleThreshold,
+      intervalMs
+    });
+    const isThrottling = throttleLevel > 0;
+
+    if (!flush) {
+      this.applyUpdates(priority);
+      this.reportPressure({ bufferSize, isThrottling, throttleLevel });
+      this.scheduleNext(intervalMs);
+      return;
+    }
+
+    this.lastFlush = now;
+
+    // Get buffered updates (auto batching may leave some for next time)
+    const updates = buffer.drain(batcher?.batchSize);
+
+    if (this.sourcePaused) {
+      this.sourcePaused = false;
+      this.source?.resume?.();
+    }
+
+    /**
+     * CREDITS
+     * Everything received so far has now been consumed, so top the
+     * source back up to a full window. A skipped flush grants nothing,
+     * which is what pauses the source under pressure.
+     */
+    const credits = this.credits;
+    if (credits.window > 0) {
+      const grant = credits.received + credits.window - credits.granted;
+      if (grant > 0) {
+        credits.granted += grant;
+        this.source?.grantCredits?.(grant);
+      }
+    }
+
+    // Priority and background updates go out in a single commit
+    const rendered = this.applyUpdates(priority.length > 0 ? priority.concat(updates) : updates);
+    if (rendered > 0 && batcher) {
+      const record = (costMs: number) => batcher.record({ costMs, rows: rendered });
+      if (this.scheduler.measureRender) {
+        this.scheduler.measureRender(now, record);
+      } else {
+        record(this.clock.now() - now);
+      }
+    }
+
+    this.reportPressure({ bufferSize, isThrottling, throttleLevel });
+    this.scheduleNext(intervalMs);
+  }
+
+  private pullLanes() {
+    const symbols = new Set([...this.visibleSymbols, ...this.pinnedSymbols]);
+    if (symbols.size > 0) {
+      this.source?.pull?.([...symbols]);
+    }
+  }
+
+  private startTimers() {
+    const every = (ms: number, callback: () => void) => {
+      let cancel: Cancel;
+      const tick = () => {
+        callback();
+        cancel = this.scheduler.delay(tick, ms);
+      };
+      cancel = this.scheduler.delay(tick, ms);
+      this.cancelTimers.push(() => cancel());
+    };
+
+    every(STATS_INTERVAL_MS, () => this.emitStats());
+    every(FLASH_CHECK_MS, () => this.clearFlashes());
+  }
+
+  private emitStats() {
+    const { counters, credits } = this;
+    this.emit({
+      type: 'stats',
+      stats: {
+        totalReceived: counters.received,
+        totalRendered: counters.rendered,
+        dropped: counters.dropped,
+        coalesced: counters.coalesced,
+        workerCoalesced: counters.workerCoalesced,
+        filtered: counters.filtered,
+        rejected: counters.rejected,
+        duplicates: counters.duplicates,
+        gaps: counters.gaps,
+        validated: counters.validated,
+        quarantined: counters.quarantined,
+        updatesPerSecond: this.receivedInWindow,
+        ...this.pressure,
+        credits: credits.window > 0
+          ? {
+              window: credits.window,
+              granted: credits.granted,
+              outstanding: credits.granted - credits.received
+            }
+          : null
+      },
+      batching: this.batching
+    });
+    this.receivedInWindow = 0;
+  }
+
+  // Clear flash animations after they play
+  // Only the symbols that are flashing are visited, not the whole universe
+  private clearFlashes() {
+    const now = this.clock.wallTime();
+    let hasChanges = false;
+
+    this.flashing.forEach(symbol => {
+      const ticker = this.store.getTicker(symbol);
+
+      if (!ticker?.flashDirection) {
+        this.flashing.delete(symbol);
+      } else if (now - ticker.lastUpdated > FLASH_DURATION_MS) {
+        this.store.set({ ...ticker, flashDirection: null });
+        this.flashing.delete(symbol);
+        hasChanges = true;
+      }
+    });
+
+    if (hasChanges) {
+      this.store.commit();
+    }
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Clock and Scheduler
+ *
+ * StreamPipeline never reads the time or schedules work directly; it goes
+ * through these interfaces, so the same pipeline runs in the browser
+ * (animation frames and timers) or under Node on a VirtualClock that the
+ * caller advances by hand.
+ */
+
+export type Cancel = () => void;
+
+export interface Clock {
+  now(): number; // Monotonic ms, like performance.now()
+  wallTime(): number; // Epoch ms, like Date.now()
+}
+
+export interface Scheduler {
+  frame(callback: () => void): Cancel; // Next animation frame
+  delay(callback: () => void, ms: number): Cancel;
+  /**
+   * Report how long the render started at `startedAt` took, once the
+   * result has been painted. Optional: without it the pipeline measures
+   * up to the end of its own synchronous store commit.
+   */
+  measureRender?(startedAt: number, report: (costMs: number) => void): void;
+}
+
+export const browserClock: Clock = {
+  now: () => performance.now(),
+  wallTime: () => Date.now()
+};
+
+export const browserScheduler: Scheduler = {
+  frame(callback) {
+    const id = requestAnimationFrame(callback);
+    return () => cancelAnimationFrame(id);
+  },
+
+  delay(callback, ms) {
+    const id = setTimeout(callback, ms);
+    return () => clearTimeout(id);
+  },
+
+  /**
+   * Store listeners schedule React's synchronous re-render as a microtask,
+   * so a microtask queued after the commit runs once it has rendered.
+   * The rAF callback then fires before the next paint and the message
+   * after it, so the sample is patch + render + commit, plus the
+   * browser's style/layout/paint work.
+   */
+  measureRender(startedAt, report) {
+    queueMicrotask(() => {
+      const committedAt = performance.now();
+      requestAnimationFrame(() => {
+        const frameAt = performance.now();
+        const channel = new MessageChannel();
+        channel.port1.onmessage = () => {
+          channel.port1.close();
+          report((committedAt - startedAt) + (performance.now() - frameAt));
+        };
+        channel.port2.postMessage(null);
+      });
+    });
+  }
+};
+
+interface VirtualTask {
+  at: number;
+  callback: () => void;
+}
+
+/**
+ * Virtual time, for running the pipeline outside the browser
+ * Nothing happens until advance() is called; frames fall on multiples of
+ * `frameMs` and tasks due at the same time run in the order they were
+ * scheduled, so a run is fully deterministic.
+ */
+export class VirtualClock implements Clock, Scheduler {
+  private time = 0;
+  private tasks: VirtualTask[] = [];
+
+  constructor(
+    private readonly frameMs = 16,
+    private readonly epoch = 0
+  ) {}
+
+  now() {
+    return this.time;
+  }
+
+  wallTime() {
+    return this.epoch + this.time;
+  }
+
+  frame(callback: () => void): Cancel {
+    return this.schedule((Math.floor(this.time / this.frameMs) + 1) * this.frameMs, callback);
+  }
+
+  delay(callback: () => void, ms: number): Cancel {
+    return this.schedule(this.time + Math.max(0, ms), callback);
+  }
+
+  /**
+   * Move time forward, running every task that falls due on the way
+   */
+  advance(ms: number) {
+    const end = this.time + ms;
+    for (;;) {
+      let next = -1;
+      for (let index = 0; index < this.tasks.length; index++) {
+        const task = this.tasks[index];
+        if (task.at <= end && (next < 0 || task.at < this.tasks[next].at)) next = index;
+      }
+      if (next < 0) break;
+
+      const [task] = this.tasks.splice(next, 1);
+      this.time = Math.max(this.time, task.at);
+      task.callback();
+    }
+    this.time = end;
+  }
+
+  private schedule(at: number, callback: () => void): Cancel {
+    const task = { at, callback };
+    this.tasks.push(task);
+    return () => {
+      const index = this.tasks.indexOf(task);
+      if (index >= 0) this.tasks.splice(index, 1);
+    };
+  }
+}
@@ -0,0 +1,99 @@
+import type {
+  DataSourceEvent,
+  DeliveryMode,
+  FaultConfig,
+  Scenario,
+  SourceConfig,
+  TransportMode
+} from '@/types/ticker';
+
+/**
+ * Data Source Abstraction
+ *
+ * A data source is anything that produces batches of ticker updates for
+ * the streaming pipeline. useDataStream only talks to this interface, so the
+ * same buffering, coalescing and backpressure logic can run on top of the
+ * simulator worker or a real feed.
+ *
+ * Lifecycle:
+ * - connect()    opens the underlying transport, emits 'ready' once usable
+ *                (again after each reconnect, with `resumed` set when the
+ *                source picked up where it left off)
+ * - start/stop   control the flow of 'updates' events
+ * - disconnect() tears the transport down (a source may be reconnected)
+ *
+ * Optional capabilities (only some sources support them):
+ * - runScenario()  executes a scripted traffic timeline
+ * - setTransport() switches how update batches are encoded, and reports
+ *                  per-mode cost through 'transport' events
+ * - drain()        emits updates the source holds locally (e.g. a shared
+ *                  ring buffer); called once per flush
+ * - setDelivery()  switches to pull delivery, where the source coalesces
+ *                  and pull() fetches the result once per flush, or
+ *                  pull(symbols) just those symbols (priority lanes)
+ * - setCreditWindow() / grantCredits()
+ *                  credit-based flow control: the source only delivers
+ *                  as many updates as it has been granted credits for.
+ *                  Each window has an epoch, which the source echoes in
+ *                  a 'creditsUpdated' event once everything delivered
+ *                  under the previous window has been emitted
+ * - pause/resume() hold back updates without stopping the stream (used
+ *                  by the pause-source overflow policy)
+ * - resync()       asks for a 'snapshot' of symbols whose sequence numbers
+ *                  showed a gap
+ * - setFaults() / stall()
+ *                  fault injection: deliver badly on purpose, reporting
+ *                  what was done through 'faultStats' events
+ */
+
+export type DataSourceListener = (event: DataSourceEvent) => void;
+
+export interface DataSource {
+  readonly kind: string;
+  connect(): void;
+  disconnect(): void;
+  start(): void;
+  stop(): void;
+  configure(config: SourceConfig): void;
+  requestSymbols(): void;
+  subscribe(listener: DataSourceListener): () => void;
+  runScenario?(scenario: Scenario | null): void;
+  setTransport?(mode: TransportMode): void;
+  drain?(): void;
+  setDelivery?(mode: DeliveryMode): void;
+  pull?(symbols?: string[]): void;
+  setCreditWindow?(window: number, epoch: number): void;
+  grantCredits?(credits: number): void;
+  pause?(): void;
+  resume?(): void;
+  resync?(symbols: string[]): void;
+  setFaults?(faults: FaultConfig): void;
+  stall?(durationMs: number): void;
+}
+
+/**
+ * Listener bookkeeping shared by the concrete sources
+ */
+export abstract class BaseDataSource implements DataSource {
+  abstract readonly kind: string;
+
+  private listeners = new Set<DataSourceListener>();
+
+  abstract connect(): void;
+  abstract disconnect(): void;
+  abstract start(): void;
+  abstract stop(): void;
+  abstract configure(config: SourceConfig): void;
+  abstract requestSymbols(): void;
+
+  subscribe(listener: DataSourceListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  protected emit(event: DataSourceEvent) {
+    this.listeners.forEach(listener => listener(event));
+  }
+}
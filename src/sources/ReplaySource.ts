@@ -0,0 +1,245 @@
+import type { ReplayProgress, SourceConfig, TickerUpdate } from '@/types/ticker';
+import type { Recording } from '@/lib/recording';
+import { PROTOCOL_VERSION } from '@/lib/protocol';
+import { BaseDataSource } from './DataSource';
+
+/**
+ * Replay Source
+ *
+ * Plays a recorded session (see lib/recording.ts) back through the
+ * pipeline with the original batch pacing, scaled by a speed factor.
+ *
+ * PLAYBACK CLOCK
+ * - Position is derived from an anchor (wall time + recording position),
+ *   so timer lateness is absorbed instead of accumulating drift
+ * - Every batch due at the current position is emitted on each timer fire
+ * - Seeking rebuilds the ticker snapshot at the new position and emits it
+ *   as 'symbols', so the table is correct after jumping around
+ * - pause()/resume() hold playback without reporting a stop, for the
+ *   pause-source overflow policy
+ */
+
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 5, 10];
+
+const PROGRESS_INTERVAL_MS = 250;
+
+export class ReplaySource extends BaseDataSource {
+  readonly kind = 'replay';
+
+  private recording: Recording | null = null;
+  private batchIndex = 0;
+  private positionMs = 0;
+  private speed = 1;
+  private loop = false;
+  private playing = false;
+  private held = false; // Halted by pause(), resumes on resume()
+  private timer: number | null = null;
+  private anchorWallMs = 0;
+  private anchorPositionMs = 0;
+  private lastProgressAt = 0;
+
+  connect() {
+    this.emit({ type: 'connection', state: 'open', attempt: 0 });
+    this.emit({ type: 'ready', protocolVersion: PROTOCOL_VERSION });
+    this.emitProgress();
+  }
+
+  disconnect() {
+    this.halt();
+    this.emit({ type: 'connection', state: 'closed', attempt: 0 });
+  }
+
+  load(recording: Recording) {
+    this.held = false;
+    this.halt();
+    this.recording = recording;
+    this.emit({ type: 'status', running: false });
+    this.seek(0);
+  }
+
+  start() {
+    if (!this.recording) {
+      this.emit({ type: 'error', error: new Error('Load a recording before starting the replay') });
+      return;
+    }
+    if (this.playing) return;
+    this.held = false;
+
+    if (this.positionMs >= this.recording.durationMs) {
+      this.seek(0);
+    }
+    this.playing = true;
+    this.anchor();
+    this.emit({ type: 'status', running: true });
+    this.emitProgress();
+    this.schedule();
+  }
+
+  stop() {
+    this.held = false;
+    this.halt();
+    this.emit({ type: 'status', running: false });
+    this.emitProgress();
+  }
+
+  configure(_config: SourceConfig) {
+    // Simulator settings don't apply to a recording
+  }
+
+  requestSymbols() {
+    if (this.recording) {
+      this.emit({ type: 'symbols', data: this.snapshotAt(this.batchIndex) });
+    }
+  }
+
+  pause() {
+    if (!this.playing) return;
+    this.held = true;
+    this.halt();
+  }
+
+  resume() {
+    if (!this.held) return;
+    this.held = false;
+    this.playing = true;
+    this.anchor();
+    this.schedule();
+  }
+
+  setSpeed(speed: number) {
+    this.positionMs = this.currentPosition();
+    this.speed = speed;
+    if (this.playing) {
+      this.anchor();
+      this.schedule();
+    }
+    this.emitProgress();
+  }
+
+  setLoop(loop: boolean) {
+    this.loop = loop;
+    this.emitProgress();
+  }
+
+  seek(positionMs: number) {
+    if (!this.recording) return;
+
+    const { batches, durationMs } = this.recording;
+    this.positionMs = Math.max(0, Math.min(durationMs, positionMs));
+
+    // First batch at or after the new position
+    let low = 0;
+    let high = batches.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (batches[mid].t < this.positionMs) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    this.batchIndex = low;
+
+    this.requestSymbols();
+    if (this.playing) {
+      this.anchor();
+      this.schedule();
+    }
+    this.emitProgress();
+  }
+
+  private halt() {
+    this.positionMs = this.currentPosition();
+    this.playing = false;
+    this.clearTimer();
+  }
+
+  private anchor() {
+    this.anchorWallMs = performance.now();
+    this.anchorPositionMs = this.positionMs;
+  }
+
+  private currentPosition() {
+    if (!this.playing) return this.positionMs;
+    return this.anchorPositionMs + (performance.now() - this.anchorWallMs) * this.speed;
+  }
+
+  private schedule() {
+    this.clearTimer();
+    const next = this.recording?.batches[this.batchIndex];
+    if (!next) {
+      this.handleEnd();
+      return;
+    }
+
+    const delay = Math.max(0, (next.t - this.currentPosition()) / this.speed);
+    this.timer = window.setTimeout(() => {
+      this.timer = null;
+      this.emitDueBatches();
+      this.schedule();
+    }, delay);
+  }
+
+  private emitDueBatches() {
+    if (!this.recording) return;
+
+    const { batches } = this.recording;
+    const position = this.currentPosition();
+    while (this.batchIndex < batches.length && batches[this.batchIndex].t <= position) {
+      this.emit({ type: 'updates', data: batches[this.batchIndex].data, timestamp: Date.now() });
+      this.batchIndex++;
+    }
+    this.positionMs = position;
+
+    if (performance.now() - this.lastProgressAt >= PROGRESS_INTERVAL_MS) {
+      this.emitProgress();
+    }
+  }
+
+  private handleEnd() {
+    if (!this.recording) return;
+
+    if (this.loop && this.recording.batches.length > 0) {
+      this.seek(0);
+      return;
+    }
+
+    this.playing = false;
+    this.positionMs = this.recording.durationMs;
+    this.emit({ type: 'status', running: false });
+    this.emitProgress();
+  }
+
+  /**
+   * Ticker state just before batch `index`: the recorded snapshot with
+   * every earlier batch applied, latest update per symbol
+   */
+  private snapshotAt(index: number): TickerUpdate[] {
+    const state = new Map<string, TickerUpdate>();
+    this.recording?.symbols.forEach(ticker => state.set(ticker.symbol, ticker));
+    for (let i = 0; i < index; i++) {
+      this.recording?.batches[i].data.forEach(update => state.set(update.symbol, update));
+    }
+    return Array.from(state.values());
+  }
+
+  private emitProgress() {
+    this.lastProgressAt = performance.now();
+    const progress: ReplayProgress = {
+      loaded: this.recording !== null,
+      playing: this.playing,
+      positionMs: this.currentPosition(),
+      durationMs: this.recording?.durationMs ?? 0,
+      speed: this.speed,
+      loop: this.loop
+    };
+    this.emit({ type: 'replay', progress });
+  }
+
+  private clearTimer() {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,276 @@
+import type {
+  DeliveryMode,
+  FaultConfig,
+  Scenario,
+  SourceConfig,
+  TickerUpdate,
+  TransportMode,
+  TransportModeStats,
+  WorkerCommand,
+  WorkerMessage
+} from '@/types/ticker';
+import { decodePackedUpdates } from '@/lib/packedUpdates';
+import { createRing, drainRing, getRingStatus, isSharedRingAvailable } from '@/lib/sharedRing';
+import { BaseDataSource } from './DataSource';
+
+/**
+ * Simulated Worker Source
+ *
+ * Default data source: wraps the data simulation Web Worker in
+ * workers/dataWorker.ts, which Vite bundles as a module worker. Worker
+ * messages are forwarded to subscribers as-is, and commands are posted
+ * straight to the worker. The message switch is exhaustive over
+ * WorkerMessage, so the build breaks when a new message type isn't
+ * handled here.
+ *
+ * TRANSPORT
+ * With the binary transport, packed batches are decoded back into
+ * TickerUpdate objects here, so subscribers always see plain 'updates'.
+ * Receive cost per mode is timed from first touching `event.data` (which
+ * is when browsers deserialize a structured clone) through decoding.
+ *
+ * The shared transport has no batch messages: the ring is allocated here,
+ * handed to the worker once, and drained whenever the pipeline calls
+ * drain(). The ring is kept until the worker confirms it switched away,
+ * then drained one last time so nothing written to it is lost.
+ */
+
+function createDataWorker() {
+  return new Worker(new URL('../workers/dataWorker.ts', import.meta.url), { type: 'module' });
+}
+
+function emptyModeStats(): TransportModeStats {
+  return { messages: 0, updates: 0, sendMs: 0, receiveMs: 0, latencyMs: 0 };
+}
+
+function emptyReceiveStats(): Record<TransportMode, TransportModeStats> {
+  return { clone: emptyModeStats(), binary: emptyModeStats(), shared: emptyModeStats() };
+}
+
+export class SimulatedWorkerSource extends BaseDataSource {
+  readonly kind = 'simulated';
+
+  private worker: Worker | null = null;
+  // Symbol tables by version; the latest is used for packed batches, older
+  // ones only until the ring no longer holds slots written against them
+  private symbolTables = new Map<number, string[]>();
+  private symbolTableVersion = 0;
+  private transportMode: TransportMode = 'clone';
+  private ring: SharedArrayBuffer | null = null;
+  private receiveStats = emptyReceiveStats();
+
+  constructor(private readonly createWorker: () => Worker = createDataWorker) {
+    super();
+  }
+
+  connect() {
+    if (this.worker) return;
+
+    this.emit({ type: 'connection', state: 'connecting', attempt: 0 });
+    this.worker = this.createWorker();
+    this.worker.onmessage = this.handleMessage;
+    this.worker.onerror = (event: ErrorEvent) => {
+      this.emit({ type: 'error', error: new Error(event.message || 'Worker error') });
+    };
+  }
+
+  disconnect() {
+    this.worker?.terminate();
+    this.worker = null;
+    this.symbolTables.clear();
+    this.transportMode = 'clone';
+    this.ring = null;
+    this.receiveStats = emptyReceiveStats();
+    this.emit({ type: 'connection', state: 'closed', attempt: 0 });
+  }
+
+  start() {
+    this.post({ type: 'start' });
+  }
+
+  stop() {
+    this.post({ type: 'stop' });
+  }
+
+  configure(config: SourceConfig) {
+    this.post({ type: 'config', ...config });
+  }
+
+  requestSymbols() {
+    this.post({ type: 'getSymbols' });
+  }
+
+  runScenario(scenario: Scenario | null) {
+    this.post({ type: 'scenario', scenario });
+  }
+
+  setCreditWindow(window: number, epoch: number) {
+    this.post({ type: 'credits', window, epoch });
+  }
+
+  grantCredits(credits: number) {
+    this.post({ type: 'grant', credits });
+  }
+
+  pause() {
+    this.post({ type: 'pause' });
+  }
+
+  resume() {
+    this.post({ type: 'resume' });
+  }
+
+  resync(symbols: string[]) {
+    this.post({ type: 'resync', symbols });
+  }
+
+  setFaults(faults: FaultConfig) {
+    this.post({ type: 'faults', faults });
+  }
+
+  stall(durationMs: number) {
+    this.post({ type: 'stall', durationMs });
+  }
+
+  setTransport(mode: TransportMode) {
+    if (mode !== 'shared') {
+      this.post({ type: 'transport', mode });
+      return;
+    }
+
+    if (!isSharedRingAvailable()) {
+      this.emit({
+        type: 'error',
+        error: new Error('Shared ring transport needs a cross-origin isolated page (COOP/COEP headers)')
+      });
+      return;
+    }
+    this.drain();
+    this.ring = createRing();
+    this.post({ type: 'transport', mode, ring: this.ring });
+  }
+
+  setDelivery(mode: DeliveryMode) {
+    this.post({ type: 'delivery', mode });
+  }
+
+  pull(symbols?: string[]) {
+    this.post(symbols ? { type: 'pull', symbols } : { type: 'pull' });
+  }
+
+  drain() {
+    if (!this.ring) return;
+
+    const startedAt = performance.now();
+    const data = drainRing(this.ring, this.symbolTables);
+    if (data.length === 0) return;
+
+    this.trackReceive('shared', startedAt, data);
+    this.pruneSymbolTables();
+    this.emit({ type: 'updates', data, timestamp: Date.now() });
+  }
+
+  private handleMessage = (event: MessageEvent<WorkerMessage>) => {
+    const receivedAt = performance.now();
+    const message = event.data;
+
+    switch (message.type) {
+      case 'ready':
+        this.emit({ type: 'connection', state: 'open', attempt: 0 });
+        this.emit(message);
+        break;
+
+      case 'symbolTable':
+        this.symbolTables.set(message.version, message.symbols);
+        this.symbolTableVersion = message.version;
+        this.pruneSymbolTables();
+        break;
+
+      case 'packedUpdates': {
+        const symbolTable = this.symbolTables.get(this.symbolTableVersion) ?? [];
+        const data = decodePackedUpdates(message.buffer, message.count, symbolTable);
+        this.trackReceive('binary', receivedAt, data);
+        this.emit({ type: 'updates', data, timestamp: message.timestamp });
+        break;
+      }
+
+      case 'updates':
+        this.trackReceive('clone', receivedAt, message.data);
+        this.emit(message);
+        break;
+
+      case 'transportUpdated':
+        this.transportMode = message.mode;
+        if (message.mode !== 'shared' && this.ring) {
+          this.drain();
+          this.ring = null;
+        }
+        break;
+
+      case 'creditsUpdated':
+        // Ring slots written under the previous window go out first
+        this.drain();
+        this.emit(message);
+        break;
+
+      case 'transportStats': {
+        // Worker reports send cost and counts; we add the receive side
+        const modes = {} as Record<TransportMode, TransportModeStats>;
+        (Object.keys(this.receiveStats) as TransportMode[]).forEach(mode => {
+          const { receiveMs, latencyMs } = this.receiveStats[mode];
+          modes[mode] = { ...message.stats[mode], receiveMs, latencyMs };
+        });
+        this.emit({
+          type: 'transport',
+          stats: {
+            mode: this.transportMode,
+            modes,
+            ring: this.ring ? getRingStatus(this.ring) : null
+          }
+        });
+        break;
+      }
+
+      case 'status':
+      case 'symbols':
+      case 'snapshot':
+      case 'configUpdated':
+      case 'scenario':
+      case 'workerCoalesced':
+      case 'faultStats':
+        this.emit(message);
+        break;
+
+      default: {
+        // Unreachable for the compiler; at runtime, forward it so the
+        // pipeline quarantines it
+        const unknown: never = message;
+        this.emit(unknown);
+      }
+    }
+  };
+
+  private trackReceive(mode: TransportMode, receivedAt: number, updates: TickerUpdate[]) {
+    const stats = this.receiveStats[mode];
+    stats.receiveMs += performance.now() - receivedAt;
+
+    const now = Date.now();
+    updates.forEach(update => {
+      stats.latencyMs += now - update.timestamp;
+    });
+  }
+
+  // Older tables are only needed while the ring may still hold their slots
+  private pruneSymbolTables() {
+    if (this.ring && getRingStatus(this.ring).used > 0) return;
+    this.symbolTables.forEach((_, version) => {
+      if (version !== this.symbolTableVersion) {
+        this.symbolTables.delete(version);
+      }
+    });
+  }
+
+  private post(command: WorkerCommand) {
+    this.worker?.postMessage(command);
+  }
+}
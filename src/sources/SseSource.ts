@@ -0,0 +1,254 @@
+import type {
+  Scenario,
+  ScenarioProgress,
+  SourceConfig,
+  TickerUpdate,
+  WorkerCommand
+} from '@/types/ticker';
+import { BaseDataSource } from './DataSource';
+import { getBackoffDelay, type BackoffOptions } from './backoff';
+
+/**
+ * Server-Sent Events Source
+ *
+ * Streams ticker updates from an SSE endpoint. SSE is one-way, so commands
+ * are POSTed to a separate endpoint, tagged with a session id that ties
+ * them to this client's stream.
+ *
+ * Frames:
+ * - event: ready    data: { "resumed": boolean, "protocolVersion": number }
+ * - event: updates  data: TickerUpdate[]
+ * - event: symbols  data: TickerUpdate[]
+ * - event: snapshot data: TickerUpdate[] (answer to resync())
+ * - event: status   data: { "running": boolean }
+ * - event: scenario data: ScenarioProgress | null
+ *
+ * RESUME
+ * - Every frame carries an id. After a drop the browser reconnects on its
+ *   own and sends Last-Event-ID, so the server can replay what was missed
+ * - If the browser gives up (server down, bad status), we reopen with
+ *   backoff and pass the last id as a query parameter instead
+ *
+ * See server/sse-server.js for a local stand-in.
+ */
+
+export class SseSource extends BaseDataSource {
+  readonly kind = 'sse';
+
+  private eventSource: EventSource | null = null;
+  private reconnectTimer: number | null = null;
+  private attempt = 0;
+  private lastEventId: string | null = null;
+  private readonly sessionId = crypto.randomUUID();
+
+  // Desired subscription, replayed when the server lost our session
+  private config: SourceConfig = {};
+  private wantsRunning = false;
+
+  constructor(
+    private readonly eventsUrl: string,
+    private readonly commandUrl: string,
+    private readonly backoff: BackoffOptions = {}
+  ) {
+    super();
+  }
+
+  connect() {
+    if (this.eventSource || this.reconnectTimer !== null) return;
+    this.attempt = 0;
+    this.open();
+  }
+
+  disconnect() {
+    if (this.reconnectTimer !== null) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.eventSource?.close();
+    this.eventSource = null;
+    this.emit({ type: 'connection', state: 'closed', attempt: this.attempt });
+  }
+
+  start() {
+    this.wantsRunning = true;
+    this.send({ type: 'start' });
+  }
+
+  stop() {
+    this.wantsRunning = false;
+    this.send({ type: 'stop' });
+  }
+
+  configure(config: SourceConfig) {
+    this.config = { ...this.config, ...config };
+    this.send({ type: 'config', ...config });
+  }
+
+  requestSymbols() {
+    this.send({ type: 'getSymbols' });
+  }
+
+  runScenario(scenario: Scenario | null) {
+    this.send({ type: 'scenario', scenario });
+  }
+
+  setCreditWindow(window: number, epoch: number) {
+    this.send({ type: 'credits', window, epoch });
+  }
+
+  grantCredits(credits: number) {
+    this.send({ type: 'grant', credits });
+  }
+
+  pause() {
+    this.send({ type: 'pause' });
+  }
+
+  resume() {
+    this.send({ type: 'resume' });
+  }
+
+  resync(symbols: string[]) {
+    this.send({ type: 'resync', symbols });
+  }
+
+  private open() {
+    this.emit({
+      type: 'connection',
+      state: this.attempt === 0 ? 'connecting' : 'reconnecting',
+      attempt: this.attempt
+    });
+
+    const url = new URL(this.eventsUrl, window.location.href);
+    url.searchParams.set('session', this.sessionId);
+    if (this.lastEventId !== null) {
+      url.searchParams.set('lastEventId', this.lastEventId);
+    }
+
+    const eventSource = new EventSource(url);
+    this.eventSource = eventSource;
+
+    eventSource.onopen = () => {
+      this.attempt = 0;
+      this.emit({ type: 'connection', state: 'open', attempt: 0 });
+    };
+
+    eventSource.onerror = () => {
+      if (eventSource.readyState === EventSource.CONNECTING) {
+        // Browser is retrying by itself and will send Last-Event-ID
+        this.emit({ type: 'connection', state: 'reconnecting', attempt: ++this.attempt });
+        return;
+      }
+
+      this.emit({ type: 'error', error: new Error(`SSE connection to ${this.eventsUrl} failed`) });
+      eventSource.close();
+      this.eventSource = null;
+      this.emit({ type: 'status', running: false });
+      this.scheduleReconnect();
+    };
+
+    eventSource.addEventListener('ready', (event: MessageEvent<string>) => {
+      const payload = this.parse<{ resumed: boolean; protocolVersion: number }>(event);
+      if (!payload) return;
+      this.emit({ type: 'ready', protocolVersion: payload.protocolVersion, resumed: payload.resumed });
+      if (!payload.resumed) {
+        this.resubscribe();
+      }
+    });
+
+    eventSource.addEventListener('updates', (event: MessageEvent<string>) => {
+      const data = this.parse<TickerUpdate[]>(event);
+      if (data) {
+        this.emit({ type: 'updates', data, timestamp: Date.now() });
+      }
+    });
+
+    eventSource.addEventListener('symbols', (event: MessageEvent<string>) => {
+      const data = this.parse<TickerUpdate[]>(event);
+      if (data) {
+        this.emit({ type: 'symbols', data });
+      }
+    });
+
+    eventSource.addEventListener('snapshot', (event: MessageEvent<string>) => {
+      const data = this.parse<TickerUpdate[]>(event);
+      if (data) {
+        this.emit({ type: 'snapshot', data });
+      }
+    });
+
+    eventSource.addEventListener('status', (event: MessageEvent<string>) => {
+      const payload = this.parse<{ running: boolean }>(event);
+      if (payload) {
+        this.emit({ type: 'status', running: payload.running });
+      }
+    });
+
+    eventSource.addEventListener('creditsUpdated', (event: MessageEvent<string>) => {
+      const payload = this.parse<{ epoch: number }>(event);
+      if (payload) {
+        this.emit({ type: 'creditsUpdated', epoch: payload.epoch });
+      }
+    });
+
+    eventSource.addEventListener('scenario', (event: MessageEvent<string>) => {
+      const progress = this.parse<ScenarioProgress | null>(event);
+      // A null payload is valid here: the scenario finished
+      if (progress || event.data === 'null') {
+        this.emit({ type: 'scenario', progress });
+      }
+    });
+  }
+
+  private scheduleReconnect() {
+    this.attempt++;
+    this.emit({ type: 'connection', state: 'reconnecting', attempt: this.attempt });
+    this.reconnectTimer = window.setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open();
+    }, getBackoffDelay(this.attempt, this.backoff));
+  }
+
+  private resubscribe() {
+    if (Object.keys(this.config).length > 0) {
+      this.send({ type: 'config', ...this.config });
+    }
+    if (this.wantsRunning) {
+      this.send({ type: 'start' });
+    }
+  }
+
+  /**
+   * Parse a frame's JSON payload and remember its id for resume
+   */
+  private parse<T>(event: MessageEvent<string>): T | null {
+    if (event.lastEventId) {
+      this.lastEventId = event.lastEventId;
+    }
+    try {
+      return JSON.parse(event.data) as T;
+    } catch {
+      this.emit({ type: 'error', error: new Error(`Malformed SSE '${event.type}' frame`) });
+      return null;
+    }
+  }
+
+  private send(command: WorkerCommand) {
+    const url = new URL(this.commandUrl, window.location.href);
+    url.searchParams.set('session', this.sessionId);
+
+    fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(command)
+    })
+      .then(response => {
+        if (!response.ok) {
+          throw new Error(`Command '${command.type}' rejected with HTTP ${response.status}`);
+        }
+      })
+      .catch((error: Error) => {
+        this.emit({ type: 'error', error });
+      });
+  }
+}
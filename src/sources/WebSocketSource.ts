@@ -0,0 +1,181 @@
+import type { Scenario, SourceConfig, WorkerCommand, WorkerMessage } from '@/types/ticker';
+import { BaseDataSource } from './DataSource';
+import { getBackoffDelay, type BackoffOptions } from './backoff';
+
+/**
+ * WebSocket Source
+ *
+ * Streams ticker updates from a WebSocket server that speaks the same JSON
+ * protocol as the simulator worker:
+ * - server -> client: WorkerMessage ('ready', 'updates', 'symbols', 'status')
+ * - client -> server: WorkerCommand ('start', 'stop', 'config', 'getSymbols')
+ *
+ * RECONNECTS
+ * - Dropped connections are retried with exponential backoff plus jitter
+ * - On reconnect the last config and running state are re-sent, so the
+ *   server resumes the same subscription without the caller noticing
+ *
+ * See server/ws-server.js for a local mock server.
+ */
+
+export class WebSocketSource extends BaseDataSource {
+  readonly kind = 'websocket';
+
+  private socket: WebSocket | null = null;
+  private reconnectTimer: number | null = null;
+  private attempt = 0;
+  private shouldReconnect = false;
+
+  // Desired subscription, replayed after every reconnect
+  private config: SourceConfig = {};
+  private wantsRunning = false;
+
+  constructor(
+    private readonly url: string,
+    private readonly backoff: BackoffOptions = {}
+  ) {
+    super();
+  }
+
+  connect() {
+    if (this.socket || this.reconnectTimer !== null) return;
+    this.shouldReconnect = true;
+    this.attempt = 0;
+    this.open();
+  }
+
+  disconnect() {
+    this.shouldReconnect = false;
+    this.clearReconnectTimer();
+
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.onclose = null;
+      socket.close();
+    }
+
+    this.emit({ type: 'connection', state: 'closed', attempt: this.attempt });
+  }
+
+  start() {
+    this.wantsRunning = true;
+    this.send({ type: 'start' });
+  }
+
+  stop() {
+    this.wantsRunning = false;
+    this.send({ type: 'stop' });
+  }
+
+  configure(config: SourceConfig) {
+    this.config = { ...this.config, ...config };
+    this.send({ type: 'config', ...config });
+  }
+
+  requestSymbols() {
+    this.send({ type: 'getSymbols' });
+  }
+
+  runScenario(scenario: Scenario | null) {
+    this.send({ type: 'scenario', scenario });
+  }
+
+  setCreditWindow(window: number, epoch: number) {
+    this.send({ type: 'credits', window, epoch });
+  }
+
+  grantCredits(credits: number) {
+    this.send({ type: 'grant', credits });
+  }
+
+  pause() {
+    this.send({ type: 'pause' });
+  }
+
+  resume() {
+    this.send({ type: 'resume' });
+  }
+
+  resync(symbols: string[]) {
+    this.send({ type: 'resync', symbols });
+  }
+
+  private open() {
+    this.emit({
+      type: 'connection',
+      state: this.attempt === 0 ? 'connecting' : 'reconnecting',
+      attempt: this.attempt
+    });
+
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.attempt = 0;
+      this.emit({ type: 'connection', state: 'open', attempt: 0 });
+      this.resubscribe();
+    };
+
+    socket.onmessage = (event: MessageEvent<string>) => {
+      let message: WorkerMessage;
+      try {
+        message = JSON.parse(event.data);
+      } catch {
+        this.emit({ type: 'error', error: new Error('Received malformed JSON from WebSocket') });
+        return;
+      }
+      this.emit(message);
+    };
+
+    socket.onerror = () => {
+      // Browsers don't expose error details; onclose handles the retry
+      this.emit({ type: 'error', error: new Error(`WebSocket error on ${this.url}`) });
+    };
+
+    socket.onclose = () => {
+      this.socket = null;
+      // Server-side simulation stops with the socket
+      this.emit({ type: 'status', running: false });
+      this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect() {
+    if (!this.shouldReconnect) {
+      this.emit({ type: 'connection', state: 'closed', attempt: this.attempt });
+      return;
+    }
+
+    this.attempt++;
+    const delay = getBackoffDelay(this.attempt, this.backoff);
+
+    this.emit({ type: 'connection', state: 'reconnecting', attempt: this.attempt });
+    this.reconnectTimer = window.setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open();
+    }, delay);
+  }
+
+  private resubscribe() {
+    if (Object.keys(this.config).length > 0) {
+      this.send({ type: 'config', ...this.config });
+    }
+    if (this.wantsRunning) {
+      this.send({ type: 'start' });
+    }
+  }
+
+  private clearReconnectTimer() {
+    if (this.reconnectTimer !== null) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private send(command: WorkerCommand) {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(command));
+    }
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * Reconnect backoff shared by the network sources
+ *
+ * Exponential backoff with +/-20% jitter so many clients don't hammer a
+ * recovering server in lockstep.
+ */
+
+export interface BackoffOptions {
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  backoffFactor?: number;
+}
+
+export function getBackoffDelay(attempt: number, options: BackoffOptions = {}): number {
+  const { initialDelayMs = 500, maxDelayMs = 10000, backoffFactor = 2 } = options;
+
+  const baseDelay = Math.min(
+    maxDelayMs,
+    initialDelayMs * Math.pow(backoffFactor, Math.max(0, attempt - 1))
+  );
+  return baseDelay * (0.8 + Math.random() * 0.4);
+}
@@ -0,0 +1,37 @@
+import type { DataSource } from './DataSource';
+import { ReplaySource } from './ReplaySource';
+import { SimulatedWorkerSource } from './SimulatedWorkerSource';
+import { SseSource } from './SseSource';
+import { WebSocketSource } from './WebSocketSource';
+
+/**
+ * Source factory used by the source picker
+ *
+ * Endpoints default to the local mock servers in server/ and can be
+ * overridden with VITE_* environment variables.
+ */
+
+export type SourceKind = 'simulated' | 'websocket' | 'sse' | 'replay';
+
+export const SOURCE_LABELS: Record<SourceKind, string> = {
+  simulated: 'Simulator (Worker)',
+  websocket: 'WebSocket',
+  sse: 'Server-Sent Events',
+  replay: 'Replay recording'
+};
+
+const WS_URL = import.meta.env.VITE_STREAM_WS_URL ?? 'ws://localhost:8787';
+const SSE_URL = import.meta.env.VITE_STREAM_SSE_URL ?? 'http://localhost:8788';
+
+export function createSource(kind: SourceKind): DataSource {
+  switch (kind) {
+    case 'simulated':
+      return new SimulatedWorkerSource();
+    case 'websocket':
+      return new WebSocketSource(WS_URL);
+    case 'sse':
+      return new SseSource(`${SSE_URL}/events`, `${SSE_URL}/command`);
+    case 'replay':
+      return new ReplaySource();
+  }
+}
@@ -7,16 +7,31 @@ export interface TickerUpdate {
   symbol: string;
   price: number;
   change: number; // Percentage change
-  volume: number;
+  volume: number; // Session volume so far
   timestamp: number;
   id: string;
+  seq?: number; // Per-symbol sequence number, where the source numbers updates
+  size?: number; // Shares traded in this tick, where the source reports trades
 }
 
+// What a coalesced update remembers about the ticks merged into it
+export interface CoalescedMeta {
+  ticks: number; // Updates merged, including this one
+  open?: number; // First price in the window (first-last, ohlc)
+  high?: number; // Highest price in the window (ohlc)
+  low?: number; // Lowest price in the window (ohlc)
+  volume?: number; // Shares traded across the window: merged tick sizes added up (sum-volume)
+}
+
+// How the buffer merges a newer update into a pending one
+export type CoalescingStrategy = 'latest' | 'first-last' | 'ohlc' | 'sum-volume';
+
 // Ticker state with additional UI metadata
 export interface TickerState extends TickerUpdate {
   previousPrice?: number;
   flashDirection?: 'up' | 'down' | null;
   lastUpdated: number;
+  coalesced?: CoalescedMeta; // Set when the last render merged several ticks
 }
 
 // Statistics for the dashboard
@@ -24,32 +39,214 @@ export interface StreamStats {
   totalReceived: number;
   totalRendered: number;
   bufferSize: number;
-  coalesced: number; // Updates merged/dropped due to coalescing
+  dropped: number; // Updates lost to buffer overflow
+  coalesced: number; // Updates merged/dropped due to coalescing on the main thread
+  workerCoalesced: number; // Updates merged in the worker before crossing postMessage (pull delivery)
   updatesPerSecond: number;
   isThrottling: boolean;
   throttleLevel: number; // 0-1, how much we're throttling
+  credits: CreditStats | null; // null when credit flow control is off
+  filtered: number; // Updates discarded by symbol render policies
+  rejected: number; // Stale updates, older than one already applied
+  duplicates: number; // Updates seen before (same sequence number or id)
+  gaps: number; // Sequence gaps detected, each one triggers a resync
+  validated: number; // Messages checked in full against the protocol schemas
+  quarantined: number; // Messages that failed validation and were set aside
+}
+
+// Credit-based flow control between the pipeline and its source
+export interface CreditStats {
+  window: number; // Updates the source may have in flight
+  granted: number; // Total credits granted since the window was set
+  outstanding: number; // Granted but not yet received back as updates
+}
+
+// Price model used by the simulator
+// - uniform: flat ±2% jump every tick
+// - gbm: geometric Brownian motion with per-symbol drift/volatility and sector correlation
+// - jump-diffusion: gbm plus occasional log-normal jump events
+export type PriceModel = 'uniform' | 'gbm' | 'jump-diffusion';
+
+// When the source hands updates over
+// - push: as soon as they are generated
+// - pull: coalesced at the source, fetched once per flush
+export type DeliveryMode = 'push' | 'pull';
+
+// How flushBuffer decides to skip cycles under load (see lib/throttle.ts)
+export type ThrottleStrategyKind = 'token-bucket' | 'aimd' | 'pid';
+
+// What happens when a new symbol arrives and the buffer is full (see lib/updateBuffer.ts)
+export type OverflowPolicy = 'drop-oldest' | 'drop-newest' | 'priority' | 'pause-source';
+
+// Per-symbol render limits; 0 turns a limit off
+export interface SymbolPolicy {
+  maxRendersPerSecond: number;
+  minMoveTicks: number; // Ignore moves smaller than this many price ticks
+  minMovePercent: number; // Ignore moves smaller than this % of the price
+}
+
+// Deliberate misbehaviour of the simulated feed, per batch; 0 is off
+export interface FaultConfig {
+  dropPercent: number; // Batches lost
+  duplicatePercent: number; // Batches delivered twice
+  reorderWindow: number; // Batches shuffled in groups of this many (0 or 1 = off)
+  jitterMs: number; // Extra delay per batch, up to this many ms
+  malformedPercent: number; // Batches with a corrupted payload
+}
+
+// Batches affected by each injected fault so far
+export interface FaultStats {
+  dropped: number;
+  duplicated: number;
+  reordered: number;
+  delayed: number;
+  malformed: number;
+  stalled: number; // Held back by a stall
 }
 
 // Configuration for the streaming system
 export interface StreamConfig {
   updatesPerSecond: number;
   bufferIntervalMs: number;
+  adaptiveBatching: boolean; // Tune interval and batch size from measured flush cost
+  frameBudgetMs: number; // Flush cost target for adaptive batching
+  priorityLanes: boolean; // Visible + pinned symbols flush every frame
+  symbolPolicy: SymbolPolicy; // Render policy for symbols without their own
+  symbolPolicies: Record<string, SymbolPolicy>; // Per-symbol overrides
+  bufferCapacity: number; // Max symbols pending in the buffer
+  overflowPolicy: OverflowPolicy;
+  coalescing: CoalescingStrategy;
   throttleThreshold: number; // Buffer size that triggers throttling
+  throttleStrategy: ThrottleStrategyKind;
   windowSize: number; // Visible rows in virtual list
   rowHeight: number;
   burstEnabled: boolean;
+  seed: number; // Simulator PRNG seed, same seed + config = same updates
+  priceModel: PriceModel;
+  universeSize: number; // Number of simulated symbols (100 to 50,000)
+  transport: TransportMode; // Worker -> main thread encoding (simulator only)
+  delivery: DeliveryMode; // Simulator only
+  creditWindow: number; // Credit-based flow control window, 0 = off
+  faults: FaultConfig; // Simulator only
+  validationSampleRate: number; // Share of update batches validated in full, 0-1
+}
+
+// One phase of a traffic scenario; rates are updates/sec
+export type ScenarioPhase =
+  | { type: 'constant'; durationMs: number; rate: number }
+  | { type: 'ramp'; durationMs: number; from: number; to: number }
+  | { type: 'spike'; durationMs: number; base: number; peak: number }
+  | { type: 'sine'; durationMs: number; base: number; amplitude: number; periodMs: number }
+  | { type: 'poisson'; durationMs: number; rate: number }
+  | { type: 'silence'; durationMs: number };
+
+// Scripted traffic timeline executed by the simulator
+export interface Scenario {
+  name: string;
+  loop?: boolean;
+  phases: ScenarioPhase[];
+}
+
+// Where the simulator is within the running scenario
+export interface ScenarioProgress {
+  name: string;
+  loop: boolean;
+  phaseIndex: number;
+  phaseCount: number;
+  phaseType: ScenarioPhase['type'];
+  elapsedMs: number;
+  totalMs: number;
+  rate: number; // Current target rate (updates/sec)
+}
+
+// How update batches cross from the worker to the main thread
+// - clone: array of objects, structured clone
+// - binary: packed ArrayBuffer, transferred with zero copy
+// - shared: SharedArrayBuffer ring drained every flush, no messages at all
+export type TransportMode = 'clone' | 'binary' | 'shared';
+
+// Cumulative transport cost for one mode
+export interface TransportModeStats {
+  messages: number; // Batches sent
+  updates: number;
+  sendMs: number; // Worker: time inside postMessage (serialize / transfer) or writing the ring
+  receiveMs: number; // Main thread: deserialize + decode
+  latencyMs: number; // Main thread: generation -> handed to the pipeline, summed over updates
+}
+
+// Occupancy of the shared ring ('shared' transport)
+export interface RingStatus {
+  capacity: number;
+  used: number;
+  overflow: number; // Updates dropped because the ring was full
+}
+
+export interface TransportStats {
+  mode: TransportMode;
+  modes: Record<TransportMode, TransportModeStats>;
+  ring: RingStatus | null;
 }
 
 // Worker message types
 export type WorkerMessage = 
-  | { type: 'ready' }
+  | { type: 'ready'; protocolVersion: number; resumed?: boolean } // See lib/protocol.ts
   | { type: 'status'; running: boolean }
   | { type: 'updates'; data: TickerUpdate[]; timestamp: number }
   | { type: 'symbols'; data: TickerUpdate[] }
-  | { type: 'configUpdated'; config: Partial<StreamConfig> };
+  | { type: 'snapshot'; data: TickerUpdate[] }
+  | { type: 'configUpdated'; config: Partial<StreamConfig> }
+  | { type: 'scenario'; progress: ScenarioProgress | null }
+  | { type: 'symbolTable'; symbols: string[]; version: number }
+  | { type: 'packedUpdates'; buffer: ArrayBuffer; count: number; timestamp: number }
+  | { type: 'transportUpdated'; mode: TransportMode }
+  | { type: 'workerCoalesced'; count: number }
+  | { type: 'creditsUpdated'; epoch: number } // The credit window of that epoch is now in force
+  | { type: 'faultStats'; stats: FaultStats }
+  | {
+      type: 'transportStats';
+      stats: Record<TransportMode, Pick<TransportModeStats, 'messages' | 'updates' | 'sendMs'>>;
+    };
 
 export type WorkerCommand = 
   | { type: 'start' }
   | { type: 'stop' }
-  | { type: 'config'; [key: string]: any }
-  | { type: 'getSymbols' };
+  | ({ type: 'config' } & SourceConfig)
+  | { type: 'getSymbols' }
+  | { type: 'resync'; symbols: string[] }
+  | { type: 'scenario'; scenario: Scenario | null }
+  | { type: 'transport'; mode: TransportMode; ring?: SharedArrayBuffer }
+  | { type: 'delivery'; mode: DeliveryMode }
+  | { type: 'pull'; symbols?: string[] } // Only these symbols (priority lanes); all when omitted
+  | { type: 'credits'; window: number; epoch: number }
+  | { type: 'grant'; credits: number }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'faults'; faults: FaultConfig }
+  | { type: 'stall'; durationMs: number };
+
+// Subset of the stream config that is forwarded to the data source
+export type SourceConfig = Partial<Pick<
+  StreamConfig,
+  'updatesPerSecond' | 'burstEnabled' | 'seed' | 'priceModel' | 'universeSize'
+>>;
+
+// Transport state of a data source
+export type ConnectionState = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+// Playback state of a recorded session
+export interface ReplayProgress {
+  loaded: boolean;
+  playing: boolean;
+  positionMs: number;
+  durationMs: number;
+  speed: number;
+  loop: boolean;
+}
+
+// Events a data source delivers to the pipeline
+export type DataSourceEvent =
+  | WorkerMessage
+  | { type: 'connection'; state: ConnectionState; attempt: number }
+  | { type: 'replay'; progress: ReplayProgress }
+  | { type: 'transport'; stats: TransportStats }
+  | { type: 'error'; error: Error };
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { TickerUpdate, WorkerCommand, WorkerMessage } from '@/types/ticker';
+
+/**
+ * Runs the worker module in-process: a stand-in `self` takes its
+ * messages, and fake timers drive its update loop.
+ */
+
+interface Scope {
+  onmessage: ((event: { data: WorkerCommand }) => void) | null;
+  postMessage(message: WorkerMessage): void;
+}
+
+let messages: WorkerMessage[];
+let scope: Scope;
+
+function send(command: WorkerCommand) {
+  scope.onmessage?.({ data: command });
+}
+
+// What the seed determines: everything but timestamps and per-symbol seq
+function updatesSince(from: number) {
+  return messages
+    .slice(from)
+    .flatMap(message => (message.type === 'updates' ? message.data : []))
+    .map(({ symbol, price, volume, id, size }: TickerUpdate) => ({ symbol, price, volume, id, size }));
+}
+
+beforeEach(async () => {
+  vi.useFakeTimers();
+  vi.resetModules();
+  messages = [];
+  scope = { onmessage: null, postMessage: message => messages.push(message) };
+  vi.stubGlobal('self', scope);
+  await import('./dataWorker');
+});
+
+afterEach(() => {
+  send({ type: 'stop' });
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
+
+describe('dataWorker', () => {
+  it('announces its protocol version', () => {
+    expect(messages[0]).toMatchObject({ type: 'ready' });
+  });
+
+  it('replays the same sequence from a seed, whenever it is applied', () => {
+    // 10 updates/s is one update every 10 ticks, so the rate carries a fraction
+    send({ type: 'config', updatesPerSecond: 10 });
+    send({ type: 'start' });
+
+    const reseedAt = (delayMs: number) => {
+      vi.advanceTimersByTime(delayMs);
+      send({ type: 'config', seed: 42 });
+      const from = messages.length;
+      vi.advanceTimersByTime(1000);
+      return updatesSince(from);
+    };
+
+    const first = reseedAt(35);
+    const second = reseedAt(75);
+    expect(first.length).toBeGreaterThan(5);
+    expect(second).toEqual(first);
+  });
+
+  it('restarts a running scenario from its first phase', () => {
+    send({
+      type: 'scenario',
+      scenario: { name: 'ramp', phases: [{ type: 'ramp', durationMs: 2000, from: 0, to: 1000 }] }
+    });
+    send({ type: 'start' });
+
+    const reseedAt = (delayMs: number) => {
+      vi.advanceTimersByTime(delayMs);
+      send({ type: 'config', seed: 7 });
+      const from = messages.length;
+      vi.advanceTimersByTime(500);
+      return updatesSince(from);
+    };
+
+    const first = reseedAt(300);
+    const second = reseedAt(645);
+    expect(first.length).toBeGreaterThan(0);
+    expect(second).toEqual(first);
+  });
+});
@@ -0,0 +1,1119 @@
+import type {
+  DeliveryMode,
+  FaultConfig,
+  FaultStats,
+  PriceModel,
+  Scenario,
+  ScenarioPhase,
+  TickerUpdate,
+  TransportMode,
+  TransportModeStats,
+  WorkerCommand,
+  WorkerMessage
+} from '@/types/ticker';
+import { hasFaults, NO_FAULTS } from '@/lib/faults';
+import { encodePackedUpdates } from '@/lib/packedUpdates';
+import { PROTOCOL_VERSION } from '@/lib/protocol';
+import { writeRing } from '@/lib/sharedRing';
+
+/**
+ * Data Simulation Web Worker
+ *
+ * This worker acts as a high-throughput "API" that generates thousands of
+ * random stock ticker updates per minute. It simulates real-world scenarios
+ * where data arrives faster than the UI can render.
+ *
+ * KEY CONCEPTS:
+ * - Decoupled from main thread to prevent UI blocking
+ * - Configurable update rate to simulate various load conditions
+ * - Bursty traffic simulation for realistic testing
+ * - Seeded PRNG: same seed + same config = identical update sequence
+ * - Selectable price model (uniform jumps, GBM, jump-diffusion)
+ * - Configurable universe (100 to 50,000 symbols) with hot/cold popularity
+ * - Scripted traffic scenarios (ramp, spike, sine, Poisson, silence)
+ * - Optional packed binary transport (transferable ArrayBuffer) or
+ *   SharedArrayBuffer ring
+ * - Optional pull delivery, coalescing latest-per-symbol in the worker
+ * - Optional credit-based flow control, and pause/resume
+ *
+ * PROTOCOL
+ * Commands in and messages out are typed by WorkerCommand and
+ * WorkerMessage (types/ticker.ts), and the command switch is exhaustive,
+ * so a protocol change that the worker doesn't handle fails the build.
+ * 'ready' announces PROTOCOL_VERSION (lib/protocol.ts).
+ *
+ * Loaded as a module worker by SimulatedWorkerSource, and run under Node
+ * by server/simulator.js for the mock servers.
+ */
+
+// The DOM lib types `self` as a Window; this is the worker side of it
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<WorkerCommand>) => void) | null;
+  postMessage(message: WorkerMessage, transfer?: Transferable[]): void;
+}
+
+const scope = self as unknown as WorkerScope;
+
+function post(message: WorkerMessage, transfer?: Transferable[]) {
+  scope.postMessage(message, transfer);
+}
+
+// Real stock symbols; larger universes append generated names
+const BASE_SYMBOLS = [
+  'AAPL', 'GOOGL', 'MSFT', 'AMZN', 'META', 'NVDA', 'TSLA', 'JPM', 'V', 'JNJ',
+  'WMT', 'PG', 'UNH', 'HD', 'MA', 'DIS', 'PYPL', 'ADBE', 'NFLX', 'CRM',
+  'INTC', 'CSCO', 'PEP', 'TMO', 'ABT', 'COST', 'AVGO', 'ACN', 'MRK', 'NKE',
+  'DHR', 'TXN', 'QCOM', 'LLY', 'MDT', 'NEE', 'UNP', 'PM', 'HON', 'RTX',
+  'BMY', 'LOW', 'ORCL', 'AMGN', 'IBM', 'GE', 'CAT', 'BA', 'MMM', 'GS',
+  'SBUX', 'BLK', 'ISRG', 'GILD', 'CVS', 'ZTS', 'MDLZ', 'ADP', 'TGT', 'BKNG',
+  'SPGI', 'CB', 'MO', 'COP', 'USB', 'PNC', 'CI', 'TJX', 'MS', 'DE',
+  'AMD', 'MU', 'SQ', 'SNOW', 'UBER', 'ABNB', 'COIN', 'RBLX', 'PLTR', 'RIVN',
+  'LCID', 'SOFI', 'HOOD', 'DKNG', 'ROKU', 'ZM', 'DOCU', 'CRWD', 'NET', 'DDOG',
+  'OKTA', 'TWLO', 'SNAP', 'PINS', 'TTD', 'UNITY', 'U', 'BILL', 'MNDY', 'AFRM'
+];
+
+// Sector groupings; symbols in a sector share a correlated shock
+const SECTORS = {
+  tech: [
+    'AAPL', 'GOOGL', 'MSFT', 'META', 'NVDA', 'ADBE', 'CRM', 'INTC', 'CSCO', 'AVGO',
+    'ACN', 'TXN', 'QCOM', 'ORCL', 'IBM', 'AMD', 'MU', 'SNOW', 'NET', 'DDOG',
+    'OKTA', 'TWLO', 'CRWD', 'ZM', 'DOCU', 'MNDY', 'U', 'UNITY', 'PLTR', 'BILL'
+  ],
+  consumer: [
+    'AMZN', 'TSLA', 'WMT', 'PG', 'HD', 'DIS', 'NFLX', 'PEP', 'COST', 'NKE',
+    'LOW', 'SBUX', 'MDLZ', 'TGT', 'BKNG', 'MO', 'PM', 'TJX', 'UBER', 'ABNB',
+    'RBLX', 'ROKU', 'SNAP', 'PINS', 'TTD', 'DKNG', 'RIVN', 'LCID'
+  ],
+  financials: [
+    'JPM', 'V', 'MA', 'PYPL', 'GS', 'BLK', 'SPGI', 'CB', 'USB', 'PNC',
+    'MS', 'SQ', 'COIN', 'SOFI', 'HOOD', 'AFRM', 'ADP'
+  ],
+  healthcare: [
+    'JNJ', 'UNH', 'TMO', 'ABT', 'MRK', 'DHR', 'LLY', 'MDT', 'BMY', 'AMGN',
+    'ISRG', 'GILD', 'CVS', 'ZTS', 'CI'
+  ],
+  industrials: ['HON', 'RTX', 'UNP', 'GE', 'CAT', 'BA', 'MMM', 'DE', 'NEE', 'COP']
+};
+
+type Sector = keyof typeof SECTORS;
+
+// Annualized volatility range per sector [min, max]
+const SECTOR_VOLATILITY: Record<Sector, [number, number]> = {
+  tech: [0.25, 0.7],
+  consumer: [0.2, 0.8],
+  financials: [0.18, 0.6],
+  healthcare: [0.15, 0.4],
+  industrials: [0.15, 0.35]
+};
+
+const SECTOR_NAMES = Object.keys(SECTORS) as Sector[];
+
+const sectorOf: Record<string, Sector> = {};
+SECTOR_NAMES.forEach(sector => {
+  SECTORS[sector].forEach(symbol => {
+    sectorOf[symbol] = sector;
+  });
+});
+
+/**
+ * Universe constants
+ * Popularity follows a Zipf distribution over the universe order: the
+ * symbol at rank r is picked with weight 1 / (r + 1)^ZIPF_EXPONENT, so a
+ * few hot symbols tick constantly while the long tail rarely moves.
+ */
+const MIN_UNIVERSE_SIZE = 100; // The real tickers; the UI's smallest size too
+const MAX_UNIVERSE_SIZE = 50000;
+const ZIPF_EXPONENT = 1;
+const NAME_SPACE = 26 * 26 * 26 * 26; // 4-letter generated tickers
+const NAME_STRIDE = 7919; // Prime, coprime with NAME_SPACE: scatters names
+
+/**
+ * Market model constants
+ * Simulated market time runs faster than wall time so that GBM moves
+ * are visible at 2 decimal places: 1 real second = 1 market minute.
+ */
+const TIME_SCALE = 60;
+const TRADING_SECONDS_PER_YEAR = 252 * 6.5 * 3600;
+const SECTOR_CORRELATION = 0.6; // Weight of the sector shock in each return
+const JUMP_INTENSITY = 1000; // Expected jumps per symbol per market year
+const JUMP_MEAN = 0; // Mean log jump size
+const JUMP_STDEV = 0.03; // Stdev of log jump size (~3% moves)
+
+/**
+ * Seedable PRNG (mulberry32)
+ * Every random decision in the simulation goes through `random()` so a run
+ * can be reproduced exactly. Math.random() is only used by fault
+ * injection, which must not disturb the seeded sequence.
+ */
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return function random() {
+    state = (state + 0x6D2B79F5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+let activeSeed = Date.now();
+let random = createRandom(activeSeed);
+
+/**
+ * Standard normal draw (Box-Muller) from the seeded PRNG
+ */
+function randomNormal() {
+  const u = 1 - random(); // (0, 1] so log() is finite
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+// Active symbol universe, symbol -> index, and cumulative popularity weights
+let universe: string[] = [];
+let universeIndex = new Map<string, number>();
+let universeVersion = 0; // Bumped on every rebuild, tags symbol table indices
+let cumulativeWeights = new Float64Array(0);
+
+// Current prices and session volumes for each symbol
+const prices: Record<string, number> = {};
+const volumes: Record<string, number> = {};
+
+// Per-symbol GBM parameters (annualized)
+const drifts: Record<string, number> = {};
+const volatilities: Record<string, number> = {};
+
+// Simulated clock (market seconds) advanced once per batch tick
+let marketTime = 0;
+const lastTickTime: Record<string, number> = {};
+
+// Sector factors: a Brownian motion per sector, sampled by each symbol
+const sectorFactors = {} as Record<Sector, number>;
+const lastSectorFactor: Record<string, number> = {};
+
+// Monotonic update counter, used for deterministic ids
+let updateSequence = 0;
+
+/**
+ * SEQUENCE NUMBERS
+ * Every update handed to the transport gets the next sequence number of
+ * its symbol (`seq`), so the consumer can spot stale, duplicate and lost
+ * updates. Numbers are assigned on delivery, not generation: updates
+ * merged away by pull coalescing never get one and leave no gap, while
+ * updates lost after that point (a full shared ring) do. They count up
+ * for the worker's lifetime, and snapshots carry the current number so
+ * the consumer can line up with it.
+ */
+const symbolSequences: Record<string, number> = {};
+const lastDelivered: Record<string, TickerUpdate> = {}; // Latest update handed over per symbol, for resync
+
+// Batch cadence: one batch every 10ms spreads load evenly
+const BATCH_INTERVAL_MS = 10;
+const PROGRESS_INTERVAL_MS = 250;
+
+let isRunning = false;
+let updateInterval: ReturnType<typeof setInterval> | null = null;
+
+// Fractional updates carried between ticks, so low rates stay exact
+let pendingUpdates = 0;
+
+// Active scenario timeline (null = manual rate from config)
+let scenario: Scenario | null = null;
+let scenarioElapsedMs = 0; // Simulated time, advances one batch per tick
+let scenarioTotalMs = 0;
+
+/**
+ * TRANSPORT
+ * - clone:  updates posted as an array of objects (structured clone)
+ * - binary: updates packed struct-of-arrays into one ArrayBuffer that is
+ *           transferred (zero copy). Symbols travel as indices into the
+ *           symbol table, which is posted as 'symbolTable' whenever it
+ *           changes, always ahead of the packed batches that use it.
+ *
+ * - shared: updates written into a SharedArrayBuffer ring supplied by the
+ *           main thread, which drains it once per frame. No message is
+ *           posted per batch at all; a full ring drops updates and counts
+ *           them as overflow.
+ *
+ * The layouts live with their readers, in lib/packedUpdates.ts and
+ * lib/sharedRing.ts. Ring slots carry the symbol table version they were
+ * written against, since ring writes can overtake the 'symbolTable'
+ * message after a universe rebuild.
+ */
+const TRANSPORT_STATS_INTERVAL_MS = 1000;
+
+type SendStats = Pick<TransportModeStats, 'messages' | 'updates' | 'sendMs'>;
+
+let transportMode: TransportMode = 'clone';
+let ring: SharedArrayBuffer | null = null; // In 'shared' mode
+// Time spent inside postMessage (serialization or transfer), or writing
+// the ring, per mode
+const sendStats: Record<TransportMode, SendStats> = {
+  clone: { messages: 0, updates: 0, sendMs: 0 },
+  binary: { messages: 0, updates: 0, sendMs: 0 },
+  shared: { messages: 0, updates: 0, sendMs: 0 }
+};
+let lastTransportStatsAt = 0;
+
+/**
+ * DELIVERY
+ * - push: every batch is posted as soon as it is generated
+ * - pull: batches are coalesced here, latest update per symbol (trade
+ *         sizes added up), and only posted when the main thread sends
+ *         'pull' (once per flush), so redundant updates never cross
+ *         postMessage. A pull naming symbols (priority lanes, every
+ *         frame) only takes those
+ */
+let deliveryMode: DeliveryMode = 'push';
+const pendingLatest = new Map<string, TickerUpdate>();
+let pendingCoalesced = 0; // Replaced in pendingLatest since the last pull
+
+/**
+ * CREDITS
+ * With a credit window set, every delivered update spends one credit and
+ * the consumer grants more as it processes them. Out of credits, push
+ * delivery pauses generation and pull delivery holds updates back (they
+ * keep coalescing). Window 0 turns flow control off.
+ *
+ * Every window the consumer sets carries an epoch, echoed back in
+ * 'creditsUpdated' as soon as it is in force: anything the consumer
+ * receives before the echo was spent from the previous window.
+ */
+let creditWindow = 0;
+let credits = Infinity;
+// Paused by the consumer: nothing is delivered, as if out of credits
+let paused = false;
+
+function deliverable() {
+  return paused ? 0 : credits;
+}
+
+/**
+ * FAULT INJECTION
+ * Makes delivery misbehave on purpose, to check that the consumer
+ * degrades gracefully. Faults act on whole batches, after sequence
+ * numbers are assigned, so the consumer's sequence checks see the damage:
+ * - dropPercent:      the batch is lost (credits are refunded, as for
+ *                     ring overflow, so flow control doesn't starve)
+ * - duplicatePercent: the batch is delivered twice
+ * - reorderWindow:    batches are held until N are queued, then sent shuffled
+ * - jitterMs:         each batch is delayed by 0 to N ms (reordering too)
+ * - malformedPercent: one update gets a field of the wrong type, a
+ *                     non-finite number or a missing field; with the clone
+ *                     transport the batch may also arrive as a non-array
+ * - 'stall' command:  every batch is held for N ms, then the backlog is
+ *                     released at once
+ * Faults draw from Math.random, not the seeded generator, so turning
+ * them on doesn't change the updates a seed produces.
+ */
+const MALFORMED_KINDS = ['wrong-type', 'non-finite', 'missing-field', 'not-array'] as const;
+const MALFORMED_FIELDS = ['symbol', 'id', 'volume'] as const;
+const FAULT_STATS_INTERVAL_MS = 1000;
+
+let faults: FaultConfig = NO_FAULTS;
+// Batches affected per fault since the worker started
+const faultStats: FaultStats = { dropped: 0, duplicated: 0, reordered: 0, delayed: 0, malformed: 0, stalled: 0 };
+let reorderQueue: TickerUpdate[][] = [];
+let stallQueue: TickerUpdate[][] | null = null; // Batches held while stalled
+let stallTimer: ReturnType<typeof setTimeout> | null = null;
+let lastFaultStatsAt = 0;
+
+interface SimulatorConfig {
+  updatesPerSecond: number;
+  burstEnabled: boolean;
+  burstMultiplier: number;
+  seed: number | null;
+  universeSize: number;
+  priceModel: PriceModel;
+}
+
+let config: SimulatorConfig = {
+  updatesPerSecond: 100, // Default: 100 updates per second = 6000/min
+  burstEnabled: false,
+  burstMultiplier: 3,
+  seed: null,
+  universeSize: BASE_SYMBOLS.length,
+  priceModel: 'uniform'
+};
+
+/**
+ * Deterministic 4-letter ticker for a generated symbol
+ */
+function generateSymbolName(index: number) {
+  let n = (index * NAME_STRIDE + 4099) % NAME_SPACE;
+  let name = '';
+  for (let i = 0; i < 4; i++) {
+    name = String.fromCharCode(65 + (n % 26)) + name;
+    n = Math.floor(n / 26);
+  }
+  return name;
+}
+
+/**
+ * Build a universe of `size` symbols: the real tickers first (they are
+ * the hottest), then generated names spread round-robin across sectors
+ */
+function buildUniverse(size: number) {
+  const target = Math.max(MIN_UNIVERSE_SIZE, Math.min(MAX_UNIVERSE_SIZE, Math.floor(size)));
+  universe = BASE_SYMBOLS.slice(0, target);
+
+  const taken = new Set(BASE_SYMBOLS);
+  let candidate = 0;
+  while (universe.length < target) {
+    const name = generateSymbolName(candidate++);
+    if (taken.has(name)) continue;
+    taken.add(name);
+    sectorOf[name] = SECTOR_NAMES[universe.length % SECTOR_NAMES.length];
+    universe.push(name);
+  }
+
+  universeIndex = new Map(universe.map((symbol, index) => [symbol, index]));
+  universeVersion++;
+
+  cumulativeWeights = new Float64Array(universe.length);
+  let total = 0;
+  for (let rank = 0; rank < universe.length; rank++) {
+    total += 1 / Math.pow(rank + 1, ZIPF_EXPONENT);
+    cumulativeWeights[rank] = total;
+  }
+}
+
+/**
+ * Pick a symbol by popularity: binary search over cumulative weights
+ */
+function pickSymbol() {
+  const target = random() * cumulativeWeights[cumulativeWeights.length - 1];
+  let low = 0;
+  let high = cumulativeWeights.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (cumulativeWeights[mid] < target) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return universe[low];
+}
+
+/**
+ * Reset the simulation to the state derived from a seed
+ * Initial prices between $50 and $500. The batch size carry and the
+ * scenario clock restart too, so the sequence doesn't depend on when
+ * the seed was applied.
+ */
+function reseed(seed: number) {
+  activeSeed = seed;
+  random = createRandom(seed);
+  updateSequence = 0;
+  marketTime = 0;
+  pendingUpdates = 0;
+  if (scenario) {
+    scenarioElapsedMs = 0;
+    postScenarioProgress();
+  }
+  SECTOR_NAMES.forEach(sector => {
+    sectorFactors[sector] = 0;
+  });
+  universe.forEach(symbol => {
+    const [minVol, maxVol] = SECTOR_VOLATILITY[sectorOf[symbol]];
+    prices[symbol] = random() * 450 + 50;
+    volumes[symbol] = Math.floor(random() * 1000000) + 100000;
+    drifts[symbol] = random() * 0.2 - 0.05; // -5% to +15% per year
+    volatilities[symbol] = minVol + random() * (maxVol - minVol);
+    lastTickTime[symbol] = 0;
+    lastSectorFactor[symbol] = 0;
+  });
+  // Pending pull updates belong to the old sequence, and so do the
+  // resync snapshots (sequence numbers themselves keep counting)
+  pendingLatest.clear();
+  Object.keys(lastDelivered).forEach(symbol => {
+    delete lastDelivered[symbol];
+  });
+}
+
+/**
+ * Advance the simulated clock and every sector factor by one batch tick
+ */
+function advanceMarket(elapsedMs: number) {
+  const dt = (elapsedMs / 1000) * TIME_SCALE;
+  marketTime += dt;
+  const dtYears = dt / TRADING_SECONDS_PER_YEAR;
+  SECTOR_NAMES.forEach(sector => {
+    sectorFactors[sector] += Math.sqrt(dtYears) * randomNormal();
+  });
+}
+
+/**
+ * Log return for one symbol since its previous tick
+ *
+ * GBM: dlnS = (mu - sigma^2 / 2) dt + sigma dW, where dW mixes the
+ * sector's factor increment with an idiosyncratic draw so symbols in the
+ * same sector move together. With jumps enabled, a Poisson number of
+ * log-normal jumps is added on top (Merton jump-diffusion).
+ */
+function modelLogReturn(symbol: string, withJumps: boolean) {
+  // Floor dt so repeated ticks within one batch still move a little
+  const dt = Math.max(marketTime - lastTickTime[symbol], 0.001);
+  const dtYears = dt / TRADING_SECONDS_PER_YEAR;
+  const sector = sectorOf[symbol];
+
+  const sectorShock = sectorFactors[sector] - lastSectorFactor[symbol];
+  const idiosyncraticShock = Math.sqrt(dtYears) * randomNormal();
+  const dW = SECTOR_CORRELATION * sectorShock
+    + Math.sqrt(1 - SECTOR_CORRELATION * SECTOR_CORRELATION) * idiosyncraticShock;
+
+  const sigma = volatilities[symbol];
+  let logReturn = (drifts[symbol] - sigma * sigma / 2) * dtYears + sigma * dW;
+
+  if (withJumps && random() < JUMP_INTENSITY * dtYears) {
+    logReturn += JUMP_MEAN + JUMP_STDEV * randomNormal();
+  }
+
+  lastTickTime[symbol] = marketTime;
+  lastSectorFactor[symbol] = sectorFactors[sector];
+  return logReturn;
+}
+
+buildUniverse(config.universeSize);
+reseed(Date.now());
+
+/**
+ * Generate a single random update for a stock
+ * The price move comes from the configured price model
+ */
+function generateUpdate(symbol: string): TickerUpdate {
+  let priceChange: number;
+  if (config.priceModel === 'uniform') {
+    // Random price change between -2% and +2%
+    priceChange = (random() - 0.5) * 0.04;
+  } else {
+    priceChange = Math.exp(modelLogReturn(symbol, config.priceModel === 'jump-diffusion')) - 1;
+  }
+  prices[symbol] *= (1 + priceChange);
+
+  // Clamp price to reasonable bounds
+  prices[symbol] = Math.max(1, Math.min(10000, prices[symbol]));
+
+  // Trade of 100 to 5,000 shares, in round lots, added to the session volume
+  const size = (1 + Math.floor(random() * 50)) * 100;
+  volumes[symbol] += size;
+
+  return {
+    symbol,
+    price: prices[symbol],
+    change: priceChange * 100, // Percentage change
+    volume: volumes[symbol],
+    timestamp: Date.now(),
+    id: `${symbol}-${++updateSequence}`,
+    size
+  };
+}
+
+/**
+ * Generate a batch of updates
+ * Selects symbols by popularity, simulating real market behavior
+ * where not all stocks update simultaneously or equally often
+ */
+function generateBatch(count: number) {
+  const updates: TickerUpdate[] = [];
+  for (let i = 0; i < count; i++) {
+    updates.push(generateUpdate(pickSymbol()));
+  }
+  return updates;
+}
+
+/**
+ * SCENARIOS
+ * A scenario is a JSON timeline of phases, each lasting `durationMs`:
+ * - constant { rate }              steady load
+ * - ramp     { from, to }          linear change in rate
+ * - spike    { base, peak }        jump to peak, exponential decay to base
+ * - sine     { base, amplitude, periodMs }
+ * - poisson  { rate }              Poisson-distributed arrivals per batch
+ * - silence  {}                    dead air, nothing is emitted
+ * Rates are updates/sec. With `loop: true` the timeline repeats.
+ */
+
+/**
+ * Locate the phase active at `elapsedMs` into the scenario
+ */
+function findPhase(elapsedMs: number) {
+  let phaseStart = 0;
+  for (let index = 0; index < scenario.phases.length; index++) {
+    const phase = scenario.phases[index];
+    if (elapsedMs < phaseStart + phase.durationMs) {
+      return { phase, index, phaseElapsedMs: elapsedMs - phaseStart };
+    }
+    phaseStart += phase.durationMs;
+  }
+  return null;
+}
+
+/**
+ * Target rate (updates/sec) of a phase, `t` ms into it
+ */
+function phaseRate(phase: ScenarioPhase, t: number) {
+  switch (phase.type) {
+    case 'constant':
+    case 'poisson':
+      return phase.rate;
+    case 'ramp':
+      return phase.from + (phase.to - phase.from) * (t / phase.durationMs);
+    case 'spike':
+      // Half-life of a fifth of the phase: mostly decayed by the end
+      return phase.base + (phase.peak - phase.base) * Math.pow(0.5, t / (phase.durationMs / 5));
+    case 'sine':
+      return Math.max(0, phase.base + phase.amplitude * Math.sin(2 * Math.PI * t / phase.periodMs));
+    case 'silence':
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Poisson draw from the seeded PRNG
+ * Knuth's method for small means, normal approximation above 30
+ */
+function poissonSample(mean: number) {
+  if (mean > 30) {
+    return Math.max(0, Math.round(mean + Math.sqrt(mean) * randomNormal()));
+  }
+  const limit = Math.exp(-mean);
+  let count = 0;
+  let product = random();
+  while (product > limit) {
+    count++;
+    product *= random();
+  }
+  return count;
+}
+
+/**
+ * Number of updates to emit this tick, from the scenario or the config
+ */
+function nextBatchSize() {
+  let rate = config.burstEnabled
+    ? config.updatesPerSecond * config.burstMultiplier
+    : config.updatesPerSecond;
+  let isPoisson = false;
+
+  if (scenario) {
+    const active = findPhase(scenarioElapsedMs);
+    rate = active ? phaseRate(active.phase, active.phaseElapsedMs) : 0;
+    isPoisson = active?.phase.type === 'poisson';
+  }
+
+  const expected = rate * BATCH_INTERVAL_MS / 1000;
+  if (isPoisson) {
+    return poissonSample(expected);
+  }
+
+  pendingUpdates += expected;
+  const count = Math.floor(pendingUpdates);
+  pendingUpdates -= count;
+  return count;
+}
+
+function postScenarioProgress() {
+  if (!scenario) {
+    post({ type: 'scenario', progress: null });
+    return;
+  }
+
+  const active = findPhase(scenarioElapsedMs);
+  post({
+    type: 'scenario',
+    progress: {
+      name: scenario.name,
+      loop: Boolean(scenario.loop),
+      phaseIndex: active ? active.index : scenario.phases.length - 1,
+      phaseCount: scenario.phases.length,
+      phaseType: active ? active.phase.type : 'silence',
+      elapsedMs: scenarioElapsedMs,
+      totalMs: scenarioTotalMs,
+      rate: active ? Math.round(phaseRate(active.phase, active.phaseElapsedMs)) : 0
+    }
+  });
+}
+
+function setScenario(next: Scenario | null) {
+  scenario = next && next.phases.length > 0 ? next : null;
+  scenarioElapsedMs = 0;
+  scenarioTotalMs = scenario
+    ? scenario.phases.reduce((total, phase) => total + phase.durationMs, 0)
+    : 0;
+  pendingUpdates = 0;
+  postScenarioProgress();
+}
+
+/**
+ * Move the scenario clock forward one batch; loop or finish at the end
+ */
+function advanceScenario() {
+  if (!scenario) return;
+
+  scenarioElapsedMs += BATCH_INTERVAL_MS;
+  if (scenarioElapsedMs >= scenarioTotalMs) {
+    if (scenario.loop) {
+      scenarioElapsedMs = 0;
+    } else {
+      setScenario(null);
+      return;
+    }
+  }
+
+  if (scenarioElapsedMs % PROGRESS_INTERVAL_MS === 0) {
+    postScenarioProgress();
+  }
+}
+
+function postSymbolTable() {
+  post({ type: 'symbolTable', symbols: universe, version: universeVersion });
+}
+
+/**
+ * Hand a batch over: number it, spend credits, then send it through
+ * whatever faults are injected
+ */
+function postUpdates(updates: TickerUpdate[]) {
+  updates.forEach(update => {
+    update.seq = (symbolSequences[update.symbol] ?? 0) + 1;
+    symbolSequences[update.symbol] = update.seq;
+    lastDelivered[update.symbol] = update;
+  });
+
+  if (creditWindow > 0) {
+    credits -= updates.length;
+  }
+
+  if (faults === NO_FAULTS && !stallQueue) {
+    sendBatch(updates);
+  } else {
+    injectFaults(updates);
+  }
+}
+
+/**
+ * Post a batch using the active transport, timing the postMessage call
+ */
+function sendBatch(updates: TickerUpdate[]) {
+  const startedAt = performance.now();
+
+  if (transportMode === 'shared') {
+    // Overflowed updates never reach the consumer, so refund their credits
+    const dropped = writeRing(ring, updates, universeIndex, universeVersion);
+    if (creditWindow > 0) {
+      credits += dropped;
+    }
+  } else if (transportMode === 'binary') {
+    const buffer = encodePackedUpdates(updates, universeIndex);
+    post(
+      { type: 'packedUpdates', buffer, count: updates.length, timestamp: Date.now() },
+      [buffer]
+    );
+  } else {
+    post({
+      type: 'updates',
+      data: updates,
+      timestamp: Date.now()
+    });
+  }
+
+  const stats = sendStats[transportMode];
+  stats.messages++;
+  stats.updates += updates.length;
+  stats.sendMs += performance.now() - startedAt;
+
+  if (startedAt - lastTransportStatsAt >= TRANSPORT_STATS_INTERVAL_MS) {
+    lastTransportStatsAt = startedAt;
+    post({ type: 'transportStats', stats: sendStats });
+  }
+}
+
+function chance(percent: number) {
+  return percent > 0 && Math.random() * 100 < percent;
+}
+
+/**
+ * Apply the configured faults to one batch (see FAULT INJECTION)
+ */
+function injectFaults(updates: TickerUpdate[]) {
+  if (chance(faults.dropPercent)) {
+    faultStats.dropped++;
+    if (creditWindow > 0) {
+      credits += updates.length;
+    }
+    postFaultStats(false);
+    return;
+  }
+
+  const batch = chance(faults.malformedPercent) ? malform(updates) : updates;
+  queueBatch(batch);
+  if (chance(faults.duplicatePercent)) {
+    faultStats.duplicated++;
+    queueBatch(batch);
+  }
+  postFaultStats(false);
+}
+
+/**
+ * Corrupted copy of a batch; the updates themselves stay intact
+ * Packed columns can only hold numbers, so the binary and shared
+ * transports only ever get a non-finite price. The result breaks the
+ * TickerUpdate type on purpose, hence the casts.
+ */
+function malform(updates: TickerUpdate[]): TickerUpdate[] {
+  faultStats.malformed++;
+  const kind = transportMode === 'clone'
+    ? MALFORMED_KINDS[Math.floor(Math.random() * MALFORMED_KINDS.length)]
+    : 'non-finite';
+
+  if (kind === 'not-array') {
+    // Array-like, but not an array
+    return { ...updates, length: updates.length } as unknown as TickerUpdate[];
+  }
+
+  const batch = updates.slice();
+  const index = Math.floor(Math.random() * batch.length);
+  const update: Record<string, unknown> = { ...batch[index] };
+  if (kind === 'wrong-type') {
+    update.price = String(update.price);
+  } else if (kind === 'non-finite') {
+    update.price = NaN;
+  } else {
+    delete update[MALFORMED_FIELDS[Math.floor(Math.random() * MALFORMED_FIELDS.length)]];
+  }
+  batch[index] = update as unknown as TickerUpdate;
+  return batch;
+}
+
+function queueBatch(batch: TickerUpdate[]) {
+  if (faults.reorderWindow <= 1) {
+    delayBatch(batch);
+    return;
+  }
+  reorderQueue.push(batch);
+  if (reorderQueue.length >= faults.reorderWindow) {
+    releaseReorderQueue();
+  }
+}
+
+/**
+ * Send the queued batches in shuffled order (Fisher-Yates)
+ */
+function releaseReorderQueue() {
+  const queued = reorderQueue;
+  reorderQueue = [];
+  for (let i = queued.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [queued[i], queued[j]] = [queued[j], queued[i]];
+  }
+  if (queued.length > 1) {
+    faultStats.reordered += queued.length;
+  }
+  queued.forEach(delayBatch);
+}
+
+function delayBatch(batch: TickerUpdate[]) {
+  if (faults.jitterMs <= 0) {
+    releaseBatch(batch);
+    return;
+  }
+  faultStats.delayed++;
+  setTimeout(() => releaseBatch(batch), Math.random() * faults.jitterMs);
+}
+
+function releaseBatch(batch: TickerUpdate[]) {
+  if (stallQueue) {
+    faultStats.stalled++;
+    stallQueue.push(batch);
+    return;
+  }
+  sendBatch(batch);
+}
+
+/**
+ * Hold every batch for `durationMs`, then release the backlog at once
+ * Stalling again while stalled extends the stall
+ */
+function stall(durationMs: number) {
+  if (!stallQueue) {
+    stallQueue = [];
+  }
+  clearTimeout(stallTimer);
+  stallTimer = setTimeout(() => {
+    const held = stallQueue;
+    stallQueue = null;
+    stallTimer = null;
+    held.forEach(sendBatch);
+    postFaultStats(true);
+  }, durationMs);
+}
+
+function postFaultStats(force: boolean) {
+  const now = performance.now();
+  if (!force && now - lastFaultStatsAt < FAULT_STATS_INTERVAL_MS) return;
+  lastFaultStatsAt = now;
+  post({ type: 'faultStats', stats: { ...faultStats } });
+}
+
+/**
+ * Hand a generated batch to the active delivery mode
+ */
+function deliverUpdates(updates: TickerUpdate[]) {
+  if (deliveryMode === 'push') {
+    postUpdates(updates);
+    return;
+  }
+
+  updates.forEach(update => {
+    const pending = pendingLatest.get(update.symbol);
+    if (pending) {
+      pendingCoalesced++;
+      // Replaced ticks still traded: their sizes carry over
+      pendingLatest.set(update.symbol, { ...update, size: pending.size + update.size });
+    } else {
+      pendingLatest.set(update.symbol, update);
+    }
+  });
+}
+
+/**
+ * Answer a pull: post the coalesced snapshot (of `symbols` only, if
+ * given) and how much was merged
+ */
+function flushPending(symbols?: string[]) {
+  if (pendingCoalesced > 0) {
+    post({ type: 'workerCoalesced', count: pendingCoalesced });
+    pendingCoalesced = 0;
+  }
+  const count = Math.min(pendingLatest.size, deliverable());
+  if (count === 0) return;
+
+  // Without enough credits the rest stays pending for a later pull
+  const updates: TickerUpdate[] = [];
+  const take = (symbol: string) => {
+    const update = pendingLatest.get(symbol);
+    if (!update) return;
+    updates.push(update);
+    pendingLatest.delete(symbol);
+  };
+  for (const symbol of symbols ?? pendingLatest.keys()) {
+    if (updates.length === count) break;
+    take(symbol);
+  }
+  if (updates.length > 0) {
+    postUpdates(updates);
+  }
+}
+
+/**
+ * Row for one symbol as it stands, tagged with its latest sequence number
+ * Update counters start at 1, so the `-0` id never collides with an update
+ */
+function tickerRow(symbol: string): TickerUpdate {
+  return {
+    symbol,
+    price: prices[symbol],
+    change: 0,
+    volume: volumes[symbol],
+    timestamp: Date.now(),
+    id: `${symbol}-0`,
+    seq: symbolSequences[symbol] ?? 0
+  };
+}
+
+/**
+ * Current state of one symbol for a resync: the last update handed over
+ */
+function snapshotOf(symbol: string) {
+  return lastDelivered[symbol] ?? tickerRow(symbol);
+}
+
+/**
+ * Start the update loop
+ * Uses setInterval to emit a batch every BATCH_INTERVAL_MS
+ */
+function startUpdates() {
+  if (isRunning) return;
+  isRunning = true;
+
+  updateInterval = setInterval(() => {
+    const batchSize = nextBatchSize();
+    advanceMarket(BATCH_INTERVAL_MS);
+    advanceScenario();
+
+    // Out of credits (or paused), a push source holds off until more are granted
+    const count = deliveryMode === 'push' ? Math.min(batchSize, deliverable()) : batchSize;
+
+    // Silence and low rates produce empty ticks; don't post those
+    if (count === 0) return;
+
+    const updates = generateBatch(count);
+
+    // Send updates to main thread (or hold them until the next pull)
+    deliverUpdates(updates);
+  }, BATCH_INTERVAL_MS);
+
+  post({ type: 'status', running: true });
+}
+
+/**
+ * Stop the update loop
+ */
+function stopUpdates() {
+  if (!isRunning) return;
+  isRunning = false;
+
+  if (updateInterval) {
+    clearInterval(updateInterval);
+    updateInterval = null;
+  }
+
+  // Don't sit on a partly filled reorder window while stopped
+  releaseReorderQueue();
+
+  post({ type: 'status', running: false });
+}
+
+/**
+ * Apply a 'config' command
+ */
+function configure({ type, ...update }: Extract<WorkerCommand, { type: 'config' }>) {
+  // Resizing the universe restarts the simulation from the current seed
+  if (typeof update.universeSize === 'number' && update.universeSize !== config.universeSize) {
+    buildUniverse(update.universeSize);
+    reseed(typeof update.seed === 'number' ? update.seed : activeSeed);
+    if (transportMode !== 'clone') {
+      postSymbolTable();
+    }
+  } else if (typeof update.seed === 'number') {
+    // A seed in the command always restarts the sequence from that seed
+    reseed(update.seed);
+  }
+  // Update configuration
+  config = { ...config, ...update };
+  post({ type: 'configUpdated', config });
+}
+
+/**
+ * Handle messages from main thread
+ * Exhaustive over WorkerCommand; anything else (a peer on another
+ * protocol version, say) is only logged
+ */
+scope.onmessage = function(event) {
+  const command = event.data;
+
+  switch (command.type) {
+    case 'start':
+      startUpdates();
+      break;
+
+    case 'stop':
+      stopUpdates();
+      break;
+
+    case 'config':
+      configure(command);
+      break;
+
+    case 'scenario':
+      // Run a scenario timeline from the beginning (null = back to manual)
+      setScenario(command.scenario);
+      if (scenario) {
+        startUpdates();
+      }
+      break;
+
+    case 'transport':
+      // Switch between structured clone, packed binary batches and the shared ring
+      if (command.mode === 'shared' && command.ring) {
+        ring = command.ring;
+        transportMode = 'shared';
+      } else {
+        ring = null;
+        transportMode = command.mode === 'binary' ? 'binary' : 'clone';
+      }
+      if (transportMode !== 'clone') {
+        postSymbolTable();
+      }
+      post({ type: 'transportUpdated', mode: transportMode });
+      break;
+
+    case 'delivery':
+      // Leaving pull mode hands over what is still pending (as far as
+      // credits allow; anything beyond that is dropped)
+      deliveryMode = command.mode === 'pull' ? 'pull' : 'push';
+      if (deliveryMode === 'push') {
+        flushPending();
+        pendingLatest.clear();
+      }
+      break;
+
+    case 'pull':
+      flushPending(command.symbols);
+      break;
+
+    case 'faults':
+      // All off takes the fast path again
+      faults = { ...NO_FAULTS, ...command.faults };
+      if (!hasFaults(faults)) {
+        faults = NO_FAULTS;
+      }
+      if (faults.reorderWindow <= 1) {
+        releaseReorderQueue();
+      }
+      postFaultStats(true);
+      break;
+
+    case 'stall':
+      stall(command.durationMs);
+      postFaultStats(true);
+      break;
+
+    case 'credits':
+      // (Re)start flow control with a full window
+      creditWindow = command.window > 0 ? command.window : 0;
+      credits = creditWindow > 0 ? creditWindow : Infinity;
+      post({ type: 'creditsUpdated', epoch: command.epoch });
+      break;
+
+    case 'grant':
+      if (creditWindow > 0) {
+        credits += command.credits;
+      }
+      break;
+
+    case 'pause':
+      paused = true;
+      break;
+
+    case 'resume':
+      paused = false;
+      break;
+
+    case 'getSymbols':
+      // Return list of all symbols for initial render
+      post({
+        type: 'symbols',
+        data: universe.map(tickerRow)
+      });
+      break;
+
+    case 'resync':
+      // Snapshot of the symbols the consumer saw a sequence gap on; sent
+      // as a plain message whatever the transport, outside flow control
+      post({
+        type: 'snapshot',
+        data: command.symbols.filter(symbol => universeIndex.has(symbol)).map(snapshotOf)
+      });
+      break;
+
+    default: {
+      const unknown: never = command;
+      console.warn('Unknown message type:', (unknown as { type?: unknown }).type);
+    }
+  }
+};
+
+// Signal that worker is ready, and which protocol it speaks
+post({ type: 'ready', protocolVersion: PROTOCOL_VERSION });